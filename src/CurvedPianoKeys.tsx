@@ -1,16 +1,75 @@
 'use client';
 
-import {
-  useEffect,
-  useLayoutEffect,
-  useMemo,
-  useRef,
-  useState,
-} from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import type { ReactNode, SVGAttributes, SVGProps } from 'react';
 
-import type { SVGAttributes, SVGProps } from 'react';
+import { normalizeActiveNotes, type ActiveNoteStyle, type ActiveNotes } from './activeNotes';
+import { DEFAULTS, defaultViewBoxPadding, resolvePathData } from './defaults';
+import {
+  computeKeyboardLayout,
+  type BlackKeyLayout,
+  formatPolygonPoints,
+  getKeyLabelFrame,
+  getLayoutViewBox,
+  type KeyLayout,
+  type GeometryWarning,
+  type KeyAlign,
+  type KeyDirection,
+  type KeyShape,
+  type OverlapStrategy,
+  type PathPosition,
+  type SubpathLayout,
+  type ThicknessProfile,
+  type WhiteKeyDensitySetting,
+} from './keyboardLayout';
+import type { KeyPattern, KeyPatternId } from './keyPatterns';
+import { fitKeyLabel, keyLabelText, resolveKeyLabels, type KeyLabelOptions, type KeyLabelsSetting } from './keyLabels';
+import { createPathGeometry, type Point } from './pathGeometry';
+import { noteAriaLabel, type KeyColor, type NoteInfo, type NoteInput } from './notes';
+import type { PianoPathPresetId } from './pathPresets';
+import { useKeyFocus } from './useKeyFocus';
+import { usePointerNotes, type NoteEvent } from './usePointerNotes';
+import { useQwertyNotes, type QwertyInputOptions } from './useQwertyNotes';
+import { useResponsiveDensity, type ResponsiveDensityOptions } from './useResponsiveDensity';
+
+export type { NoteEvent } from './usePointerNotes';
+export { QWERTY_NOTE_CODES, type QwertyInputOptions } from './useQwertyNotes';
+export {
+  resolveResponsiveBreakpoint,
+  type RenderedSize,
+  type ResponsiveBreakpoint,
+  type ResponsiveDensityOptions,
+} from './useResponsiveDensity';
+
+/** Everything a custom key renderer needs to draw one key. */
+export type KeyRenderProps = {
+  /** The key's full layout, including its path range and depth offsets. */
+  layout: KeyLayout;
+  /** Outline in path coordinates. */
+  polygon: Point[];
+  /** `polygon` formatted for a `<polygon points>` attribute. */
+  points: string;
+  /** Pitch of the key; `pitchClass` is the step name from the key pattern. */
+  note: Omit<NoteInfo, 'pitchClass'> & { pitchClass: string };
+  /** Position among keys of the same row group, in path order. */
+  index: number;
+  /** Highlight from `activeNotes` (or a held key), or `null` when inactive. */
+  active: ActiveNoteStyle | null;
+  /** Point on the path at the centre of the key. */
+  center: Point;
+  /** Unit tangent of the path at `center`. */
+  tangent: Point;
+  /** Unit normal of the path at `center`; keys extend along it. */
+  normal: Point;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  /** The default polygon, highlight and label, to keep or decorate. */
+  children: ReactNode;
+};
 
-import { PIANO_PATH_PRESETS, type PianoPathPresetId } from './pathPresets';
+export type KeyRenderer = (props: KeyRenderProps) => ReactNode;
 
 export type CurvedPianoKeysProps = {
   /** SVG path data (e.g. "M 20 120 C 200 -40 360 280 540 120"). */
@@ -19,20 +78,57 @@ export type CurvedPianoKeysProps = {
   /** Use a built-in preset by id (see `PIANO_PATH_PRESETS`). */
   pathPreset?: PianoPathPresetId;
 
-  /** Number of white keys to render. Overrides `whiteKeyDensity` when provided. */
+  /**
+   * Number of white keys to render. Overrides `whiteKeyDensity` when provided.
+   * The range stops at MIDI notes 0-127, with a warning when keys are cut.
+   */
   numWhiteKeys?: number;
 
+  /**
+   * Lowest note on the keyboard as a MIDI number or name (e.g. `"A0"`, `"F2"`,
+   * `"C#3"`). May be a black key. With `highNote` the white-key count is
+   * derived from the range; on its own the range extends upward from here.
+   */
+  lowNote?: NoteInput;
+
+  /**
+   * Highest note on the keyboard (e.g. `"C8"`). May be a black key. On its own
+   * the range extends downward from here.
+   */
+  highNote?: NoteInput;
+
   /**
    * Density preset used to derive the white-key span. Ignored when `numWhiteKeys`
    * or `whiteKeySpan` is provided.
    */
   whiteKeyDensity?: WhiteKeyDensitySetting;
 
-  /** Starting white note name determines the black-key cadence. */
+  /**
+   * Measure `whiteKeyDensity` in on-screen pixels of the rendered `<svg>`
+   * rather than path units, recounting the keys as it resizes. Options choose
+   * where keys are added or dropped and set per-width breakpoints.
+   */
+  responsive?: boolean | ResponsiveDensityOptions;
+
+  /**
+   * Starting white note when no `lowNote`/`highNote` is given: `'A'` starts on
+   * A0 and `'C'` on C1.
+   */
   startOn?: 'A' | 'C';
 
-  /** Ribbon thickness in px, measured normal to the path. */
-  thickness?: number;
+  /**
+   * Closed paths only: where the first key starts, as a fraction (0-1) of the
+   * way round the loop, to rotate a ring keyboard. Defaults to `0`, the
+   * path's start point.
+   */
+  startAt?: number;
+
+  /**
+   * Ribbon thickness in px, measured normal to the path. Pass a function of
+   * normalised position (0-1) or `[position, thickness]` stops to taper it;
+   * black keys shrink in depth and width along with it.
+   */
+  thickness?: number | ThicknessProfile;
 
   /**
    * Explicit span for a single white key along the path. When omitted the span
@@ -43,6 +139,46 @@ export type CurvedPianoKeysProps = {
   /** Black key width as a fraction of the white key span. */
   blackWidthRatio?: number;
 
+  /**
+   * Arrangement of keys within each octave: `'piano'` (default),
+   * `'harpsichord'` (reversed colours), `'19-edo'`, `'24-edo'`, `'janko'`,
+   * `'chromatic'`, or a custom `KeyPattern`. For patterns with other than 12
+   * steps, `midi` in events and `activeNotes` is the step number.
+   */
+  keyPattern?: KeyPatternId | KeyPattern;
+
+  /**
+   * Where black keys sit between their white neighbours: `'centered'`
+   * (default) on the seam, `'realistic'` grouped like an acoustic piano, or
+   * per-pitch-class fractions such as `{ 'C#': 0.65 }` (see `BLACK_FRACTIONS`).
+   */
+  blackKeyLayout?: BlackKeyLayout;
+
+  /**
+   * Keyboards on a path with several subpaths (`M` commands), e.g. lettering:
+   * `'continuous'` (default) carries one keyboard across the gaps, `'separate'`
+   * gives each subpath its own keyboard, and a list sets each one's range
+   * (`[{ lowNote: 'C3', highNote: 'B3' }, { numWhiteKeys: 10 }]`).
+   */
+  subpaths?: SubpathLayout;
+
+  /**
+   * Where keys sit when they do not fill the path, e.g. with `whiteKeySpan`:
+   * `'start'` (default), `'center'` or `'end'`, or `'justify'` to stretch them
+   * to fill it.
+   */
+  align?: KeyAlign;
+
+  /**
+   * Part of the path to lay keys along, as fractions (0-1) of its length or
+   * `{ length }` in path units. Defaults to the whole path.
+   */
+  pathStart?: PathPosition;
+  pathEnd?: PathPosition;
+
+  /** `'reverse'` puts the lowest note at the end of the path. Defaults to `'forward'`. */
+  direction?: KeyDirection;
+
   /** Black key depth as a fraction of `thickness`. */
   blackDepth?: number;
 
@@ -53,6 +189,45 @@ export type CurvedPianoKeysProps = {
   blackStroke?: string;
   strokeWidth?: number;
 
+  /**
+   * Keys to highlight: a list of notes (`["C4", "E4", 67]`) or a map from note
+   * to `{ color, velocity, label }`. Fully controlled by the parent; when
+   * omitted, keys held through the built-in inputs are highlighted instead.
+   */
+  activeNotes?: ActiveNotes;
+
+  /**
+   * Print note names on the keys, rotated to follow the curve: `'c'` (or
+   * `true`), `'white'` or `'all'`, or options with a naming style such as
+   * `{ show: 'all', naming: 'german', accidentals: 'flat' }`. A label from
+   * `activeNotes` takes the place of the note name on its key.
+   */
+  labels?: KeyLabelsSetting;
+
+  /** Highlight colour for active white and black keys, unless a note sets its own `color`. */
+  whiteActiveFill?: string;
+  blackActiveFill?: string;
+
+  /**
+   * Called when a key is pressed by mouse, pen or touch, including each new
+   * key reached while dragging. Supplying either note callback makes the
+   * keyboard interactive and disables touch scrolling over it.
+   */
+  onNoteOn?: (event: NoteEvent) => void;
+
+  /** Called when a pointer releases a key, leaves it while dragging, or is cancelled. */
+  onNoteOff?: (event: NoteEvent) => void;
+
+  /** Colour of the focus ring drawn around the keyboard-focused key. */
+  focusRingColor?: string;
+
+  /**
+   * Play from the computer keyboard, DAW-style: `A W S E D F T G Y H U J K O L P ; '`
+   * cover an octave and a half starting on C, `Z` / `X` shift the octave. Notes
+   * arrive through `onNoteOn` / `onNoteOff` with `pointerType: 'keyboard'`.
+   */
+  qwertyInput?: boolean | QwertyInputOptions;
+
   /** Toggle drawing of the underlying guide path. */
   showPath?: boolean;
 
@@ -65,6 +240,23 @@ export type CurvedPianoKeysProps = {
    */
   orientation?: 1 | -1;
 
+  /**
+   * `'straight'` (default) draws each key as a quad between its boundaries;
+   * `'curved'` bends the long edges along the path, adding points where it
+   * curves tightly so wide keys still hug it.
+   */
+  keyShape?: KeyShape;
+
+  /**
+   * How to draw keys where the path bends tighter than `thickness / 2` and
+   * neighbouring keys would cross: `'none'` (default), `'clamp'`, `'fan'` or
+   * `'skip'`. See `OverlapStrategy`.
+   */
+  overlapStrategy?: OverlapStrategy;
+
+  /** Called with each problem found in the path, e.g. bends too tight for the thickness. */
+  onGeometryWarning?: (warning: GeometryWarning) => void;
+
   /**
    * If `true` (default) the component computes a tight viewBox around the keys.
    * Supply a custom `viewBox` (via `svgProps`) or set this to `false` to fully
@@ -75,135 +267,117 @@ export type CurvedPianoKeysProps = {
   /** Additional padding (px) applied when fitting the viewBox. */
   viewBoxPadding?: number;
 
+  /**
+   * Replace the contents of each white / black key. Keys stay wrapped in a
+   * `<g>` that carries their accessibility attributes, and hit-testing uses
+   * the layout, so custom shapes do not change what is playable. Not used by
+   * `renderCurvedPianoKeysToSVG`.
+   */
+  renderWhiteKey?: KeyRenderer;
+  renderBlackKey?: KeyRenderer;
+
   /** Forwarded props for the outer `<svg>`. */
   svgProps?: SVGAttributes<SVGSVGElement>;
 
-  /** Forwarded props for the hidden `<path>` measurement element. */
+  /** Forwarded props for the guide `<path>` element (hidden unless `showPath`). */
   pathProps?: SVGProps<SVGPathElement>;
 };
 
-type Quad = [number, number, number, number, number, number, number, number];
-
-const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
-
-const DEFAULTS = {
-  numWhiteKeys: 52,
-  whiteKeyDensity: 'md' as const,
-  startOn: 'A' as const,
-  thickness: 80,
-  blackWidthRatio: 0.62,
-  blackDepth: 0.64,
-  whiteFill: '#ffffff',
-  whiteStroke: 'rgba(0,0,0,0.16)',
-  blackFill: '#1a1a1a',
-  blackStroke: 'rgba(0,0,0,0.35)',
-  strokeWidth: 1,
-  orientation: 1 as const,
-  fitViewBox: true,
-  initialViewBox: '0 0 1200 400',
-  defaultPath: PIANO_PATH_PRESETS[0]?.d ?? 'M 40 240 L 1040 240',
-} satisfies Required<
-  Pick<
-    CurvedPianoKeysProps,
-    | 'numWhiteKeys'
-    | 'whiteKeyDensity'
-    | 'startOn'
-    | 'thickness'
-    | 'blackWidthRatio'
-    | 'blackDepth'
-    | 'whiteFill'
-    | 'whiteStroke'
-    | 'blackFill'
-    | 'blackStroke'
-    | 'strokeWidth'
-    | 'orientation'
-    | 'fitViewBox'
-  >
-> & { initialViewBox: string; defaultPath: string };
-
-const NOTE_ORDER_A = ['A', 'B', 'C', 'D', 'E', 'F', 'G'] as const;
-const NOTE_ORDER_C = ['C', 'D', 'E', 'F', 'G', 'A', 'B'] as const;
-
-/** Fractional offsets (0-1) for black keys following each white key. */
-const BLACK_FRACTIONS: Record<string, number | null> = {
-  A: 0.6,
-  B: null,
-  C: 0.6,
-  D: 0.4,
-  E: null,
-  F: 0.6,
-  G: 0.5,
+type KeyColors = {
+  fill: string;
+  stroke: string;
+  activeFill: string;
+  labelFill: string;
+  render: KeyRenderer | undefined;
 };
 
-type WhiteKeyDensity = 'xs' | 'sm' | 'md' | 'lg' | 'xl';
-export type WhiteKeyDensitySetting = WhiteKeyDensity;
-
-export const WHITE_KEY_DENSITY_SPANS: Record<WhiteKeyDensity, number> = {
-  xs: 10,
-  sm: 12.5,
-  md: 15,
-  lg: 18,
-  xl: 21.5,
+type KeyStyle = {
+  colors: Record<KeyColor, KeyColors>;
+  strokeWidth: number;
+  /** Steps per octave of the key pattern; only 12-step notes have spoken names. */
+  period: number;
+  /** Playable keys are exposed as buttons with a roving tab stop. */
+  interactive: boolean;
+  tabbableId: string | null;
+  labels: KeyLabelOptions | null;
 };
 
-const MIN_WHITE_KEYS = 12;
-
-const PRESET_PATHS = new Map<string, string>(
-  PIANO_PATH_PRESETS.map((preset) => [preset.id, preset.d]),
-);
-
-function geoAt(path: SVGPathElement, s: number) {
-  const total = path.getTotalLength();
-  const clamp = (value: number) => Math.max(0, Math.min(total, value));
-  const delta = 0.5;
-  const position = path.getPointAtLength(clamp(s));
-  const next = path.getPointAtLength(clamp(s + delta));
-  const previous = path.getPointAtLength(clamp(s - delta));
-  const tangentX = next.x - previous.x;
-  const tangentY = next.y - previous.y;
-  const tangentLength = Math.hypot(tangentX, tangentY) || 1e-6;
-  const unitX = tangentX / tangentLength;
-  const unitY = tangentY / tangentLength;
-  return {
-    p: position,
-    t: { x: unitX, y: unitY },
-    n: { x: -unitY, y: unitX },
-  };
-}
-
-function makeQuadCentered(path: SVGPathElement, s0: number, s1: number, halfDepth: number): Quad {
-  const start = geoAt(path, s0);
-  const end = geoAt(path, s1);
-  const a1x = start.p.x + start.n.x * halfDepth;
-  const a1y = start.p.y + start.n.y * halfDepth;
-  const b1x = end.p.x + end.n.x * halfDepth;
-  const b1y = end.p.y + end.n.y * halfDepth;
-  const b2x = end.p.x - end.n.x * halfDepth;
-  const b2y = end.p.y - end.n.y * halfDepth;
-  const a2x = start.p.x - start.n.x * halfDepth;
-  const a2y = start.p.y - start.n.y * halfDepth;
-  return [a1x, a1y, b1x, b1y, b2x, b2y, a2x, a2y];
-}
-
-function makeQuadFromEdge(
-  path: SVGPathElement,
-  s0: number,
-  s1: number,
-  anchorOffset: number,
-  depth: number,
-  orientation: 1 | -1,
-): Quad {
-  const start = geoAt(path, s0);
-  const end = geoAt(path, s1);
-  const startAnchorX = start.p.x + start.n.x * anchorOffset;
-  const startAnchorY = start.p.y + start.n.y * anchorOffset;
-  const endAnchorX = end.p.x + end.n.x * anchorOffset;
-  const endAnchorY = end.p.y + end.n.y * anchorOffset;
-  const startInnerX = startAnchorX + start.n.x * depth * orientation;
-  const startInnerY = startAnchorY + start.n.y * depth * orientation;
-  const endInnerX = endAnchorX + end.n.x * depth * orientation;
-  const endInnerY = endAnchorY + end.n.y * depth * orientation;
-  return [startAnchorX, startAnchorY, endAnchorX, endAnchorY, endInnerX, endInnerY, startInnerX, startInnerY];
+function renderKeyElements(keys: KeyLayout[], activeStyles: Map<number, ActiveNoteStyle>, style: KeyStyle) {
+  const { colors, strokeWidth, period, interactive, tabbableId, labels } = style;
+  return keys.map((key) => {
+    const { fill, stroke, activeFill, labelFill, render } = colors[key.color];
+    const active = activeStyles.get(key.midi);
+    const points = formatPolygonPoints(key.polygon);
+    const text = active?.label || (labels ? keyLabelText(key, labels, period) : null);
+    const label = text ? fitKeyLabel(key, text, labels?.fontSize) : null;
+    const content = (
+      <>
+        <polygon
+          points={points}
+          fill={fill}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          vectorEffect="non-scaling-stroke"
+          shapeRendering="geometricPrecision"
+        />
+        {active ? (
+          <polygon
+            points={points}
+            fill={active.color ?? activeFill}
+            fillOpacity={active.velocity ?? 1}
+            stroke="none"
+            pointerEvents="none"
+          />
+        ) : null}
+        {text && label ? (
+          <text
+            x={label.x}
+            y={label.y}
+            transform={`rotate(${label.angle} ${label.x} ${label.y})`}
+            fontSize={label.fontSize}
+            fill={labelFill}
+            textAnchor="middle"
+            dominantBaseline="central"
+            pointerEvents="none"
+          >
+            {text}
+          </text>
+        ) : null}
+      </>
+    );
+    return (
+      <g
+        key={key.id}
+        data-key-id={key.id}
+        data-note={key.note}
+        data-midi={key.midi}
+        data-active={active ? '' : undefined}
+        role={interactive ? 'button' : undefined}
+        aria-label={interactive ? (period === 12 ? noteAriaLabel(key.midi) : key.note) : undefined}
+        aria-pressed={interactive ? Boolean(active) : undefined}
+        tabIndex={interactive ? (key.id === tabbableId ? 0 : -1) : undefined}
+        style={interactive ? { outline: 'none' } : undefined}
+      >
+        {render
+          ? render({
+              layout: key,
+              polygon: key.polygon,
+              points,
+              note: { midi: key.midi, name: key.note, pitchClass: key.pitchClass, octave: key.octave, color: key.color },
+              index: key.index,
+              active: active ?? null,
+              center: key.center.p,
+              tangent: key.center.t,
+              normal: key.center.n,
+              fill,
+              stroke,
+              strokeWidth,
+              children: content,
+            })
+          : content}
+      </g>
+    );
+  });
 }
 
 export function CurvedPianoKeys(props: CurvedPianoKeysProps) {
@@ -211,8 +385,12 @@ export function CurvedPianoKeys(props: CurvedPianoKeysProps) {
     d,
     pathPreset,
     numWhiteKeys,
+    lowNote,
+    highNote,
     whiteKeyDensity = DEFAULTS.whiteKeyDensity,
+    responsive,
     startOn = DEFAULTS.startOn,
+    startAt,
     thickness = DEFAULTS.thickness,
     whiteKeySpan,
     blackWidthRatio = DEFAULTS.blackWidthRatio,
@@ -222,189 +400,280 @@ export function CurvedPianoKeys(props: CurvedPianoKeysProps) {
     blackFill = DEFAULTS.blackFill,
     blackStroke = DEFAULTS.blackStroke,
     strokeWidth = DEFAULTS.strokeWidth,
+    activeNotes,
+    labels,
+    whiteActiveFill = DEFAULTS.whiteActiveFill,
+    blackActiveFill = DEFAULTS.blackActiveFill,
     showPath = false,
     className,
     orientation = DEFAULTS.orientation,
+    keyShape = DEFAULTS.keyShape,
+    overlapStrategy = DEFAULTS.overlapStrategy,
+    blackKeyLayout = DEFAULTS.blackKeyLayout,
+    keyPattern = DEFAULTS.keyPattern,
+    subpaths,
+    align,
+    pathStart,
+    pathEnd,
+    direction,
+    onGeometryWarning,
     fitViewBox = DEFAULTS.fitViewBox,
     viewBoxPadding,
+    onNoteOn,
+    onNoteOff,
+    qwertyInput,
+    focusRingColor = DEFAULTS.focusRingColor,
+    renderWhiteKey,
+    renderBlackKey,
     svgProps,
     pathProps,
   } = props;
 
-  const pathRef = useRef<SVGPathElement | null>(null);
-  const [whiteQuads, setWhiteQuads] = useState<Quad[]>([]);
-  const [blackQuads, setBlackQuads] = useState<Quad[]>([]);
-  const [viewBox, setViewBox] = useState<string>(DEFAULTS.initialViewBox);
+  const svgRef = useRef<SVGSVGElement>(null);
 
   const { className: svgClassName, viewBox: svgViewBox, ...restSvgProps } = svgProps ?? {};
 
-  const resolvedPath = useMemo(() => {
-    if (d && d.trim()) {
-      return d;
-    }
-    if (pathPreset) {
-      const presetPath = PRESET_PATHS.get(pathPreset);
-      if (presetPath) {
-        return presetPath;
-      }
-      console.warn(`curved-piano-keys: pathPreset "${pathPreset}" was not found. Falling back to default.`);
-    }
-    return DEFAULTS.defaultPath;
-  }, [d, pathPreset]);
+  const resolvedPath = useMemo(() => resolvePathData(d, pathPreset), [d, pathPreset]);
 
-  useEffect(() => {
-    if (svgViewBox) {
-      setViewBox(svgViewBox);
-    }
-  }, [svgViewBox]);
+  const path = useMemo(() => createPathGeometry(resolvedPath), [resolvedPath]);
 
-  useIsomorphicLayoutEffect(() => {
-    const path = pathRef.current;
-    if (!path) {
+  const responsiveOptions = responsive ? (responsive === true ? {} : responsive) : null;
+  const responsiveDensity = useResponsiveDensity(svgRef, responsiveOptions);
+  const keepRange = responsiveDensity
+    ? responsiveDensity.keep ?? (lowNote != null && highNote != null ? 'center' : 'octaves')
+    : undefined;
+  const layoutNumWhiteKeys = responsiveDensity?.numWhiteKeys ?? numWhiteKeys;
+  const layoutDensity = responsiveDensity?.whiteKeyDensity ?? whiteKeyDensity;
+  const pixelsPerUnit = responsiveDensity?.size?.pixelsPerUnit;
+
+  // Layout is pure, so it runs during render and the server output already
+  // contains every key and the fitted viewBox.
+  const layout = useMemo(
+    () =>
+      computeKeyboardLayout(path, {
+        numWhiteKeys: layoutNumWhiteKeys,
+        lowNote,
+        highNote,
+        whiteKeyDensity: layoutDensity,
+        pixelsPerUnit,
+        keepRange,
+        startOn,
+        startAt,
+        thickness,
+        whiteKeySpan,
+        blackWidthRatio,
+        blackDepth,
+        orientation,
+        keyShape,
+        overlapStrategy,
+        blackKeyLayout,
+        keyPattern,
+        subpaths,
+        align,
+        pathStart,
+        pathEnd,
+        direction,
+      }),
+    [
+      path,
+      layoutNumWhiteKeys,
+      lowNote,
+      highNote,
+      layoutDensity,
+      pixelsPerUnit,
+      keepRange,
+      startOn,
+      startAt,
+      thickness,
+      whiteKeySpan,
+      blackWidthRatio,
+      blackDepth,
+      orientation,
+      keyShape,
+      overlapStrategy,
+      blackKeyLayout,
+      keyPattern,
+      subpaths,
+      align,
+      pathStart,
+      pathEnd,
+      direction,
+    ],
+  );
+
+  const warningHandler = useRef(onGeometryWarning);
+  warningHandler.current = onGeometryWarning;
+  // Inline object props recompute the layout every render; only report warnings whose content changed.
+  const reportedWarnings = useRef<string | null>(null);
+  useEffect(() => {
+    const serialized = JSON.stringify(layout.warnings);
+    if (serialized === reportedWarnings.current) {
       return;
     }
+    reportedWarnings.current = serialized;
+    layout.warnings.forEach((warning) => warningHandler.current?.(warning));
+  }, [layout]);
 
-    const totalLength = path.getTotalLength();
+  const interactive = Boolean(onNoteOn || onNoteOff || qwertyInput);
 
-    const targetSpan = WHITE_KEY_DENSITY_SPANS[whiteKeyDensity] ?? WHITE_KEY_DENSITY_SPANS[DEFAULTS.whiteKeyDensity];
+  // Notes held by this component's own inputs; shown when `activeNotes` is not controlled.
+  const [pressedNotes, setPressedNotes] = useState<ReadonlyMap<number, number>>(() => new Map());
 
-    let whiteCount: number;
-    if (numWhiteKeys != null) {
-      whiteCount = Math.max(1, Math.floor(numWhiteKeys));
-    } else if (whiteKeySpan && whiteKeySpan > 0) {
-      whiteCount = Math.max(1, Math.round(totalLength / whiteKeySpan));
-    } else {
-      whiteCount = Math.max(MIN_WHITE_KEYS, Math.round(totalLength / targetSpan));
-    }
+  const handleNoteOn = useCallback(
+    (event: NoteEvent) => {
+      setPressedNotes((previous) => new Map(previous).set(event.midi, (previous.get(event.midi) ?? 0) + 1));
+      onNoteOn?.(event);
+    },
+    [onNoteOn],
+  );
 
-    const span = whiteKeySpan && whiteKeySpan > 0 ? whiteKeySpan : totalLength / whiteCount;
+  const handleNoteOff = useCallback(
+    (event: NoteEvent) => {
+      setPressedNotes((previous) => {
+        const next = new Map(previous);
+        const count = (next.get(event.midi) ?? 0) - 1;
+        if (count > 0) {
+          next.set(event.midi, count);
+        } else {
+          next.delete(event.midi);
+        }
+        return next;
+      });
+      onNoteOff?.(event);
+    },
+    [onNoteOff],
+  );
 
-    const boundaries: number[] = [];
-    for (let index = 0; index <= whiteCount; index += 1) {
-      boundaries.push(Math.min(index * span, totalLength));
-    }
+  const noteHandlers = interactive ? { onNoteOn: handleNoteOn, onNoteOff: handleNoteOff } : {};
 
-    const halfWhite = thickness / 2;
-    const whites: Quad[] = [];
-    for (let index = 0; index < whiteCount; index += 1) {
-      whites.push(makeQuadCentered(path, boundaries[index], boundaries[index + 1], halfWhite));
-    }
+  const pointerHandlers = usePointerNotes(svgRef, layout, noteHandlers);
+  const keyFocus = useKeyFocus(svgRef, layout, interactive, noteHandlers);
 
-    const order = startOn === 'A' ? NOTE_ORDER_A : NOTE_ORDER_C;
-    const blacks: Quad[] = [];
-    const blackWidth = span * blackWidthRatio;
-    const blackDepthPx = thickness * blackDepth;
-    const anchorOffset = orientation === 1 ? -halfWhite : halfWhite;
+  const qwertyOptions = useMemo(() => (qwertyInput === true ? {} : qwertyInput || null), [qwertyInput]);
+  const qwerty = useQwertyNotes(svgRef, layout, qwertyOptions, noteHandlers);
 
-    for (let index = 0; index < whiteCount - 1; index += 1) {
-      const note = order[index % 7];
-      const fraction = BLACK_FRACTIONS[note];
-      if (fraction == null) {
+  const qwertyHints = useMemo(() => {
+    if (!qwerty) {
+      return null;
+    }
+    const elements = [];
+    for (const hint of qwerty.hints) {
+      const key = layout.keys.find((candidate) => candidate.midi === hint.midi);
+      if (!key) {
         continue;
       }
-
-      const minBoundary = boundaries[index] + 0.001;
-      const maxBoundary = boundaries[Math.min(index + 2, boundaries.length - 1)] - 0.001;
-      const seam = boundaries[index + 1];
-      const halfWidth = blackWidth / 2;
-      let startOffset = seam - halfWidth;
-      let endOffset = seam + halfWidth;
-
-      if (startOffset < minBoundary) {
-        const shift = minBoundary - startOffset;
-        startOffset += shift;
-        endOffset += shift;
-      }
-
-      if (endOffset > maxBoundary) {
-        const shift = endOffset - maxBoundary;
-        startOffset -= shift;
-        endOffset -= shift;
-      }
-
-      const s0 = Math.max(minBoundary, startOffset);
-      const s1 = Math.min(maxBoundary, endOffset);
-
-      if (s1 > s0) {
-        blacks.push(makeQuadFromEdge(path, s0, s1, anchorOffset, blackDepthPx, orientation));
+      const frame = getKeyLabelFrame(key);
+      const fill = key.color === 'white' ? blackFill : whiteFill;
+      elements.push(
+        <text
+          key={`hint-${hint.midi}`}
+          x={frame.x}
+          y={frame.y}
+          transform={`rotate(${frame.angle} ${frame.x} ${frame.y})`}
+          fontSize={frame.fontSize * 0.8}
+          fill={fill}
+          opacity={0.55}
+          textAnchor="middle"
+          dominantBaseline="central"
+        >
+          {hint.label}
+        </text>,
+      );
+      // The base C also shows which octave the letters currently play.
+      if (hint.midi === (qwerty.octave + 1) * layout.pattern.period) {
+        const octaveFrame = getKeyLabelFrame(key, 0.66);
+        elements.push(
+          <text
+            key="hint-octave"
+            x={octaveFrame.x}
+            y={octaveFrame.y}
+            transform={`rotate(${octaveFrame.angle} ${octaveFrame.x} ${octaveFrame.y})`}
+            fontSize={octaveFrame.fontSize * 0.6}
+            fill={fill}
+            opacity={0.55}
+            textAnchor="middle"
+            dominantBaseline="central"
+          >
+            {key.note}
+          </text>,
+        );
       }
     }
+    return elements;
+  }, [qwerty, layout, whiteFill, blackFill]);
 
+  const viewBox = useMemo(() => {
+    if (svgViewBox) {
+      return svgViewBox;
+    }
     if (fitViewBox) {
-      const polygons = [...whites, ...blacks];
-      if (polygons.length > 0) {
-        let minX = Infinity;
-        let minY = Infinity;
-        let maxX = -Infinity;
-        let maxY = -Infinity;
-
-        for (const quad of polygons) {
-          for (let i = 0; i < 8; i += 2) {
-            const x = quad[i];
-            const y = quad[i + 1];
-            minX = Math.min(minX, x);
-            minY = Math.min(minY, y);
-            maxX = Math.max(maxX, x);
-            maxY = Math.max(maxY, y);
-          }
-        }
-
-        if (Number.isFinite(minX) && Number.isFinite(minY) && Number.isFinite(maxX) && Number.isFinite(maxY)) {
-          const pad = viewBoxPadding ?? Math.max(8, strokeWidth * 4);
-          const width = maxX - minX + pad * 2;
-          const height = maxY - minY + pad * 2;
-          setViewBox(`${minX - pad} ${minY - pad} ${width} ${height}`);
-        }
-      }
+      const pad = viewBoxPadding ?? defaultViewBoxPadding(strokeWidth);
+      return getLayoutViewBox(layout, pad) ?? DEFAULTS.initialViewBox;
     }
+    return DEFAULTS.initialViewBox;
+  }, [svgViewBox, fitViewBox, viewBoxPadding, strokeWidth, layout]);
 
-    setWhiteQuads(whites);
-    setBlackQuads(blacks);
-  }, [
-    resolvedPath,
-    numWhiteKeys,
-    whiteKeyDensity,
-    startOn,
-    thickness,
-    whiteKeySpan,
-    blackWidthRatio,
-    blackDepth,
-    strokeWidth,
-    fitViewBox,
-    viewBoxPadding,
-    orientation,
-  ]);
+  const activeStyles = useMemo(() => {
+    if (activeNotes !== undefined) {
+      return normalizeActiveNotes(activeNotes, layout.pattern);
+    }
+    const pressed = new Map<number, ActiveNoteStyle>();
+    pressedNotes.forEach((_count, midi) => pressed.set(midi, {}));
+    return pressed;
+  }, [activeNotes, pressedNotes, layout.pattern]);
+
+  const tabbableId = keyFocus?.tabbableId ?? null;
+  const labelOptions = useMemo(() => resolveKeyLabels(labels), [labels]);
+
+  const keyStyle = useMemo(
+    (): KeyStyle => ({
+      colors: {
+        white: {
+          fill: whiteFill,
+          stroke: whiteStroke,
+          activeFill: whiteActiveFill,
+          labelFill: blackFill,
+          render: renderWhiteKey,
+        },
+        black: {
+          fill: blackFill,
+          stroke: blackStroke,
+          activeFill: blackActiveFill,
+          labelFill: whiteFill,
+          render: renderBlackKey,
+        },
+      },
+      strokeWidth,
+      period: layout.pattern.period,
+      interactive,
+      tabbableId,
+      labels: labelOptions,
+    }),
+    [
+      whiteFill,
+      whiteStroke,
+      whiteActiveFill,
+      blackFill,
+      blackStroke,
+      blackActiveFill,
+      renderWhiteKey,
+      renderBlackKey,
+      strokeWidth,
+      layout.pattern.period,
+      interactive,
+      tabbableId,
+      labelOptions,
+    ],
+  );
 
   const whitePolygons = useMemo(
-    () =>
-      whiteQuads.map((points, index) => (
-        <polygon
-          key={`white-${index}`}
-          points={`${points[0]},${points[1]} ${points[2]},${points[3]} ${points[4]},${points[5]} ${points[6]},${points[7]}`}
-          fill={whiteFill}
-          stroke={whiteStroke}
-          strokeWidth={strokeWidth}
-          vectorEffect="non-scaling-stroke"
-          shapeRendering="geometricPrecision"
-        />
-      )),
-    [whiteQuads, whiteFill, whiteStroke, strokeWidth],
+    () => renderKeyElements(layout.whiteKeys, activeStyles, keyStyle),
+    [layout, activeStyles, keyStyle],
   );
 
   const blackPolygons = useMemo(
-    () =>
-      blackQuads.map((points, index) => (
-        <polygon
-          key={`black-${index}`}
-          points={`${points[0]},${points[1]} ${points[2]},${points[3]} ${points[4]},${points[5]} ${points[6]},${points[7]}`}
-          fill={blackFill}
-          stroke={blackStroke}
-          strokeWidth={strokeWidth}
-          vectorEffect="non-scaling-stroke"
-          shapeRendering="geometricPrecision"
-        />
-      )),
-    [blackQuads, blackFill, blackStroke, strokeWidth],
+    () => renderKeyElements(layout.blackKeys, activeStyles, keyStyle),
+    [layout, activeStyles, keyStyle],
   );
 
   const mergedSvgClassName = [className, svgClassName].filter(Boolean).join(' ') || undefined;
@@ -422,18 +691,64 @@ export function CurvedPianoKeys(props: CurvedPianoKeysProps) {
     resolvedPathProps.stroke = 'none';
   }
 
+  const chain =
+    <E,>(own: (event: E) => void, forwarded: ((event: E) => void) | undefined) =>
+    (event: E) => {
+      forwarded?.(event);
+      own(event);
+    };
+
+  let interactiveProps: SVGAttributes<SVGSVGElement> = {};
+  if (pointerHandlers) {
+    interactiveProps = {
+      onPointerDown: chain(pointerHandlers.onPointerDown, restSvgProps.onPointerDown),
+      onPointerMove: chain(pointerHandlers.onPointerMove, restSvgProps.onPointerMove),
+      onPointerUp: chain(pointerHandlers.onPointerUp, restSvgProps.onPointerUp),
+      onPointerCancel: chain(pointerHandlers.onPointerCancel, restSvgProps.onPointerCancel),
+      onLostPointerCapture: chain(pointerHandlers.onLostPointerCapture, restSvgProps.onLostPointerCapture),
+      style: { touchAction: 'none', userSelect: 'none', ...restSvgProps.style },
+    };
+  }
+  if (keyFocus) {
+    interactiveProps = {
+      ...interactiveProps,
+      onKeyDown: chain(keyFocus.handlers.onKeyDown, restSvgProps.onKeyDown),
+      onKeyUp: chain(keyFocus.handlers.onKeyUp, restSvgProps.onKeyUp),
+      onFocus: chain(keyFocus.handlers.onFocus, restSvgProps.onFocus),
+      onBlur: chain(keyFocus.handlers.onBlur, restSvgProps.onBlur),
+    };
+  }
+
+  const focusedKey =
+    keyFocus?.focusedId != null ? layout.keys.find((key) => key.id === keyFocus.focusedId) : undefined;
+
   return (
     <svg
+      ref={svgRef}
       className={mergedSvgClassName}
       viewBox={viewBox}
       width="100%"
       height="auto"
+      role={interactive ? 'group' : 'img'}
       aria-label="Curved piano keyboard"
       {...restSvgProps}
+      {...interactiveProps}
     >
-      <path ref={pathRef} d={resolvedPath} {...resolvedPathProps} />
+      <path d={resolvedPath} {...resolvedPathProps} />
       <g>{whitePolygons}</g>
       <g>{blackPolygons}</g>
+      {qwertyHints ? <g pointerEvents="none">{qwertyHints}</g> : null}
+      {focusedKey ? (
+        <polygon
+          points={formatPolygonPoints(focusedKey.polygon)}
+          fill="none"
+          stroke={focusRingColor}
+          strokeWidth={3}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+          pointerEvents="none"
+        />
+      ) : null}
     </svg>
   );
 }
@@ -0,0 +1,305 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import type { ReactElement } from 'react';
+
+import { DEFAULTS, defaultViewBoxPadding, resolvePathData } from './defaults';
+import {
+  computeKeyboardLayout,
+  formatPolygonPoints,
+  getPathBandPolygon,
+  getPolygonsViewBox,
+  type KeyboardLayout,
+  type KeyboardLayoutOptions,
+  type KeyLayout,
+  type KeyShape,
+} from './keyboardLayout';
+import { createPathGeometry, type PathGeometry, type Point } from './pathGeometry';
+
+import type { CurvedPianoKeysProps } from './CurvedPianoKeys';
+
+/** A note on the roll. `MidiFileNote` and recorded notes fit as they are. */
+export type PianoRollNote = {
+  midi: number;
+  /** Seconds at which the note reaches its key. */
+  time: number;
+  /** Seconds; sets the bar's length. */
+  duration: number;
+  /** 0-1, shown as the bar's opacity. */
+  velocity?: number;
+  color?: string;
+};
+
+export type CurvedPianoRollProps = KeyboardLayoutOptions &
+  Pick<
+    CurvedPianoKeysProps,
+    'd' | 'pathPreset' | 'whiteActiveFill' | 'blackActiveFill' | 'fitViewBox' | 'viewBoxPadding' | 'className' | 'svgProps'
+  > & {
+    notes: ReadonlyArray<PianoRollNote>;
+    /** Current time in seconds, e.g. a transport's `position`. */
+    time: number;
+    /** Seconds of upcoming notes shown along each lane. Defaults to `3`. */
+    lookahead?: number;
+    /** Length of each lane in path units, measured from the back edge of the keys. Defaults to `320`. */
+    laneLength?: number;
+    /** Draw the lane backgrounds. Defaults to `true`. */
+    showLanes?: boolean;
+    laneFill?: string;
+    blackLaneFill?: string;
+    laneStroke?: string;
+  };
+
+const ROLL_DEFAULTS = {
+  lookahead: 3,
+  laneLength: 320,
+  laneFill: 'rgba(0,0,0,0.03)',
+  blackLaneFill: 'rgba(0,0,0,0.08)',
+  laneStroke: 'rgba(0,0,0,0.08)',
+};
+
+/** Share of a lane's width left clear on each side of a bar, so neighbouring bars stay apart. */
+const BAR_INSET = 0.08;
+
+type Lane = {
+  key: KeyLayout;
+  /** Offset of the keys' back edge, where bars land. */
+  base: number;
+  /** `1` or `-1`: which way along the normal the lane runs away from the keys. */
+  outward: number;
+  polygon: Point[];
+};
+
+function computeLanes(path: PathGeometry, layout: KeyboardLayout, laneLength: number, keyShape: KeyShape): Lane[] {
+  return [...layout.whiteKeys, ...layout.blackKeys].map((key) => {
+    const [back, front] = key.depthRange;
+    // Lanes continue behind the keys, away from the front edge.
+    const outward = back > front ? 1 : -1;
+    return {
+      key,
+      base: back,
+      outward,
+      polygon: getPathBandPolygon(path, key.range, back, back + outward * laneLength, keyShape),
+    };
+  });
+}
+
+/**
+ * Returns a viewBox enclosing both the keys and their piano-roll lanes, so
+ * `CurvedPianoKeys` and `CurvedPianoRoll` can share one coordinate space.
+ */
+export function getPianoRollViewBox(
+  d: string | PathGeometry,
+  options: KeyboardLayoutOptions & { laneLength?: number; padding?: number } = {},
+): string | null {
+  const path = typeof d === 'string' ? createPathGeometry(d) : d;
+  const layout = computeKeyboardLayout(path, options);
+  const lanes = computeLanes(
+    path,
+    layout,
+    options.laneLength ?? ROLL_DEFAULTS.laneLength,
+    options.keyShape ?? DEFAULTS.keyShape,
+  );
+  return getPolygonsViewBox(
+    [...layout.keys.map((key) => key.polygon), ...lanes.map((lane) => lane.polygon)],
+    options.padding ?? defaultViewBoxPadding(DEFAULTS.strokeWidth),
+  );
+}
+
+/**
+ * Falling notes for a curved keyboard. Each key gets a lane extruded along
+ * its normal behind the keys, and upcoming notes travel down it to land on
+ * the key at `note.time`. Pass the same geometry props as `CurvedPianoKeys`
+ * (and the same viewBox, see `getPianoRollViewBox`) to line the two up.
+ */
+export function CurvedPianoRoll(props: CurvedPianoRollProps) {
+  const {
+    d,
+    pathPreset,
+    notes,
+    time,
+    lookahead = ROLL_DEFAULTS.lookahead,
+    laneLength = ROLL_DEFAULTS.laneLength,
+    showLanes = true,
+    laneFill = ROLL_DEFAULTS.laneFill,
+    blackLaneFill = ROLL_DEFAULTS.blackLaneFill,
+    laneStroke = ROLL_DEFAULTS.laneStroke,
+    whiteActiveFill = DEFAULTS.whiteActiveFill,
+    blackActiveFill = DEFAULTS.blackActiveFill,
+    fitViewBox = DEFAULTS.fitViewBox,
+    viewBoxPadding,
+    className,
+    svgProps,
+    numWhiteKeys,
+    lowNote,
+    highNote,
+    whiteKeyDensity,
+    pixelsPerUnit,
+    keepRange,
+    startOn,
+    startAt,
+    thickness,
+    whiteKeySpan,
+    blackWidthRatio,
+    blackDepth,
+    orientation,
+    keyShape = DEFAULTS.keyShape,
+    overlapStrategy,
+    blackKeyLayout,
+    keyPattern,
+    subpaths,
+    align,
+    pathStart,
+    pathEnd,
+    direction,
+  } = props;
+
+  const { className: svgClassName, viewBox: svgViewBox, ...restSvgProps } = svgProps ?? {};
+
+  const resolvedPath = useMemo(() => resolvePathData(d, pathPreset), [d, pathPreset]);
+
+  const path = useMemo(() => createPathGeometry(resolvedPath), [resolvedPath]);
+
+  const layout = useMemo(
+    () =>
+      computeKeyboardLayout(path, {
+        numWhiteKeys,
+        lowNote,
+        highNote,
+        whiteKeyDensity,
+        pixelsPerUnit,
+        keepRange,
+        startOn,
+        startAt,
+        thickness,
+        whiteKeySpan,
+        blackWidthRatio,
+        blackDepth,
+        orientation,
+        keyShape,
+        overlapStrategy,
+        blackKeyLayout,
+        keyPattern,
+        subpaths,
+        align,
+        pathStart,
+        pathEnd,
+        direction,
+      }),
+    [
+      path,
+      numWhiteKeys,
+      lowNote,
+      highNote,
+      whiteKeyDensity,
+      pixelsPerUnit,
+      keepRange,
+      startOn,
+      startAt,
+      thickness,
+      whiteKeySpan,
+      blackWidthRatio,
+      blackDepth,
+      orientation,
+      keyShape,
+      overlapStrategy,
+      blackKeyLayout,
+      keyPattern,
+      subpaths,
+      align,
+      pathStart,
+      pathEnd,
+      direction,
+    ],
+  );
+
+  const lanes = useMemo(() => computeLanes(path, layout, laneLength, keyShape), [path, layout, laneLength, keyShape]);
+
+  const lanesByMidi = useMemo(() => {
+    const byMidi = new Map<number, Lane[]>();
+    for (const lane of lanes) {
+      byMidi.set(lane.key.midi, [...(byMidi.get(lane.key.midi) ?? []), lane]);
+    }
+    return byMidi;
+  }, [lanes]);
+
+  const viewBox = useMemo(() => {
+    if (svgViewBox) {
+      return svgViewBox;
+    }
+    if (fitViewBox) {
+      const polygons = [...layout.keys.map((key) => key.polygon), ...lanes.map((lane) => lane.polygon)];
+      const pad = viewBoxPadding ?? defaultViewBoxPadding(DEFAULTS.strokeWidth);
+      return getPolygonsViewBox(polygons, pad) ?? DEFAULTS.initialViewBox;
+    }
+    return DEFAULTS.initialViewBox;
+  }, [svgViewBox, fitViewBox, viewBoxPadding, layout, lanes]);
+
+  const laneElements = useMemo(
+    () =>
+      showLanes
+        ? lanes.map((lane) => (
+            <polygon
+              key={lane.key.id}
+              points={formatPolygonPoints(lane.polygon)}
+              fill={lane.key.color === 'black' ? blackLaneFill : laneFill}
+              stroke={laneStroke}
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))
+        : null,
+    [showLanes, lanes, laneFill, blackLaneFill, laneStroke],
+  );
+
+  // Distance travelled per second, so a note's length maps to its bar's length.
+  const speed = lookahead > 0 ? laneLength / lookahead : 0;
+  const whiteBars: ReactElement[] = [];
+  const blackBars: ReactElement[] = [];
+  notes.forEach((note, noteIndex) => {
+    const near = Math.max(0, (note.time - time) * speed);
+    const far = Math.min(laneLength, (note.time + note.duration - time) * speed);
+    if (speed === 0 || far <= near) {
+      return;
+    }
+    for (const lane of lanesByMidi.get(note.midi) ?? []) {
+      const [s0, s1] = lane.key.range;
+      const inset = (s1 - s0) * BAR_INSET;
+      const polygon = getPathBandPolygon(
+        path,
+        [s0 + inset, s1 - inset],
+        lane.base + lane.outward * near,
+        lane.base + lane.outward * far,
+        keyShape,
+      );
+      const black = lane.key.color === 'black';
+      (black ? blackBars : whiteBars).push(
+        <polygon
+          key={`${noteIndex}-${lane.key.id}`}
+          points={formatPolygonPoints(polygon)}
+          fill={note.color ?? (black ? blackActiveFill : whiteActiveFill)}
+          fillOpacity={note.velocity == null ? 1 : 0.4 + 0.6 * note.velocity}
+          data-midi={note.midi}
+        />,
+      );
+    }
+  });
+
+  const mergedSvgClassName = [className, svgClassName].filter(Boolean).join(' ') || undefined;
+
+  return (
+    <svg
+      className={mergedSvgClassName}
+      viewBox={viewBox}
+      width="100%"
+      height="auto"
+      aria-hidden="true"
+      pointerEvents="none"
+      {...restSvgProps}
+    >
+      {laneElements ? <g>{laneElements}</g> : null}
+      <g>{whiteBars}</g>
+      <g>{blackBars}</g>
+    </svg>
+  );
+}
@@ -0,0 +1,62 @@
+import { patternNoteToStep, type KeyPattern } from './keyPatterns';
+import { noteToMidi, type NoteInput } from './notes';
+
+export type ActiveNoteStyle = {
+  /** Highlight colour; defaults to `whiteActiveFill` / `blackActiveFill`. */
+  color?: string;
+  /** 0-1 strength of the highlight. Defaults to `1`. */
+  velocity?: number;
+  /** Short text drawn on the key, e.g. a finger number or chord degree. */
+  label?: string;
+};
+
+/**
+ * Notes to highlight: a list of notes, or a map from note to its style. Keys
+ * of plain objects may be note names (`"C4"`) or MIDI numbers (`60`).
+ */
+export type ActiveNotes =
+  | ReadonlyArray<NoteInput>
+  | ReadonlyMap<NoteInput, ActiveNoteStyle | true>
+  | Readonly<Record<string, ActiveNoteStyle | true>>;
+
+function toMidi(note: NoteInput, pattern: KeyPattern | undefined) {
+  if (typeof note === 'string' && /^\d+$/.test(note.trim())) {
+    return Number(note);
+  }
+  return pattern ? patternNoteToStep(pattern, note) : noteToMidi(note);
+}
+
+/**
+ * Normalises any `ActiveNotes` shape to a map keyed by MIDI number, or by step
+ * number when `pattern` is given. Unparseable notes are dropped.
+ */
+export function normalizeActiveNotes(
+  activeNotes: ActiveNotes | undefined,
+  pattern?: KeyPattern,
+): Map<number, ActiveNoteStyle> {
+  const result = new Map<number, ActiveNoteStyle>();
+  if (!activeNotes) {
+    return result;
+  }
+
+  const add = (note: NoteInput, style: ActiveNoteStyle | true) => {
+    const midi = toMidi(note, pattern);
+    if (midi != null) {
+      result.set(midi, style === true ? {} : style);
+    }
+  };
+
+  if (Array.isArray(activeNotes)) {
+    for (const note of activeNotes as ReadonlyArray<NoteInput>) {
+      add(note, true);
+    }
+  } else if (activeNotes instanceof Map) {
+    activeNotes.forEach((style, note) => add(note, style));
+  } else {
+    for (const [note, style] of Object.entries(activeNotes as Record<string, ActiveNoteStyle | true>)) {
+      add(note, style);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,76 @@
+import { getPathPreset, PIANO_PATH_PRESETS } from './pathPresets';
+
+import type { CurvedPianoKeysProps } from './CurvedPianoKeys';
+
+export const DEFAULTS = {
+  numWhiteKeys: 52,
+  whiteKeyDensity: 'md' as const,
+  startOn: 'A' as const,
+  thickness: 80,
+  blackWidthRatio: 0.62,
+  blackDepth: 0.64,
+  whiteFill: '#ffffff',
+  whiteStroke: 'rgba(0,0,0,0.16)',
+  blackFill: '#1a1a1a',
+  blackStroke: 'rgba(0,0,0,0.35)',
+  strokeWidth: 1,
+  whiteActiveFill: '#93c5fd',
+  blackActiveFill: '#2563eb',
+  focusRingColor: '#f59e0b',
+  orientation: 1 as const,
+  keyShape: 'straight' as const,
+  overlapStrategy: 'none' as const,
+  blackKeyLayout: 'centered' as const,
+  keyPattern: 'piano' as const,
+  align: 'start' as const,
+  direction: 'forward' as const,
+  fitViewBox: true,
+  initialViewBox: '0 0 1200 400',
+  defaultPath: PIANO_PATH_PRESETS[0]?.d ?? 'M 40 240 L 1040 240',
+} satisfies Required<
+  Pick<
+    CurvedPianoKeysProps,
+    | 'numWhiteKeys'
+    | 'whiteKeyDensity'
+    | 'startOn'
+    | 'thickness'
+    | 'blackWidthRatio'
+    | 'blackDepth'
+    | 'whiteFill'
+    | 'whiteStroke'
+    | 'blackFill'
+    | 'blackStroke'
+    | 'strokeWidth'
+    | 'whiteActiveFill'
+    | 'blackActiveFill'
+    | 'focusRingColor'
+    | 'orientation'
+    | 'keyShape'
+    | 'overlapStrategy'
+    | 'blackKeyLayout'
+    | 'keyPattern'
+    | 'align'
+    | 'direction'
+    | 'fitViewBox'
+  >
+> & { initialViewBox: string; defaultPath: string };
+
+/** Resolves the `d` / `pathPreset` pair to the path data that should be rendered. */
+export function resolvePathData(d: string | undefined, pathPreset: string | undefined): string {
+  if (d && d.trim()) {
+    return d;
+  }
+  if (pathPreset) {
+    const presetPath = getPathPreset(pathPreset)?.d;
+    if (presetPath) {
+      return presetPath;
+    }
+    console.warn(`curved-piano-keys: pathPreset "${pathPreset}" was not found. Falling back to default.`);
+  }
+  return DEFAULTS.defaultPath;
+}
+
+/** Default viewBox padding: a little room for strokes around the outermost keys. */
+export function defaultViewBoxPadding(strokeWidth: number) {
+  return Math.max(8, strokeWidth * 4);
+}
@@ -1,2 +1,18 @@
 export * from './CurvedPianoKeys';
+export * from './CurvedPianoRoll';
 export * from './pathPresets';
+export * from './pathGenerators';
+export * from './pathGeometry';
+export * from './renderToSVG';
+export * from './keyboardLayout';
+export * from './keyPatterns';
+export * from './notes';
+export * from './keyLabels';
+export * from './activeNotes';
+export * from './useMidiInput';
+export * from './midiFile';
+export * from './midiTransport';
+export * from './useMidiFilePlayer';
+export * from './noteRecording';
+export * from './useNoteRecorder';
+export * from './pianoSynth';
@@ -0,0 +1,60 @@
+import { getKeyLabelFrame, type KeyLabelFrame, type KeyLayout } from './keyboardLayout';
+import { formatNoteName, type NoteNameOptions } from './notes';
+
+/** Which keys get a note name: every C, every white key, or all keys. */
+export type KeyLabelMode = 'c' | 'white' | 'all';
+
+export type KeyLabelOptions = NoteNameOptions & {
+  /** Keys to label. Defaults to `'c'`. */
+  show?: KeyLabelMode;
+  /** Fixed font size in path units; by default the text is fitted to each key. */
+  fontSize?: number;
+};
+
+/** `true` labels every C; a mode string picks the keys with default naming. */
+export type KeyLabelsSetting = boolean | KeyLabelMode | KeyLabelOptions;
+
+/** Rough advance width of a glyph relative to the font size. */
+const GLYPH_WIDTH = 0.62;
+
+/** Share of the key's width the text may take up. */
+const LABEL_FILL = 0.85;
+
+export function resolveKeyLabels(setting: KeyLabelsSetting | undefined): KeyLabelOptions | null {
+  if (!setting) {
+    return null;
+  }
+  if (setting === true) {
+    return {};
+  }
+  return typeof setting === 'string' ? { show: setting } : setting;
+}
+
+/**
+ * The note name drawn on `key`, or `null` when the mode skips it. Naming
+ * styles apply to 12-step patterns; others use the pattern's step names.
+ */
+export function keyLabelText(key: KeyLayout, options: KeyLabelOptions, period = 12) {
+  const show = options.show ?? 'c';
+  if ((show === 'c' && key.pitchClass !== 'C') || (show === 'white' && key.color !== 'white')) {
+    return null;
+  }
+  if (period !== 12) {
+    return options.octave === false ? key.pitchClass : key.note;
+  }
+  return formatNoteName(key.midi, options);
+}
+
+/**
+ * Where to draw `text` on `key`: on the key's centre line, rotated to the path
+ * tangent and shrunk until the text fits across the key.
+ */
+export function fitKeyLabel(key: KeyLayout, text: string, fontSize?: number): KeyLabelFrame {
+  const frame = getKeyLabelFrame(key);
+  if (fontSize != null) {
+    return { ...frame, fontSize };
+  }
+  const width = key.range[1] - key.range[0];
+  const fitted = (width * LABEL_FILL) / (GLYPH_WIDTH * Math.max(1, text.length));
+  return { ...frame, fontSize: Math.min(frame.fontSize, fitted) };
+}
@@ -0,0 +1,163 @@
+import { isBlackKey, noteToMidi, SHARP_NOTE_NAMES, type KeyColor, type NoteInput } from './notes';
+
+export type KeyPatternKey = {
+  /** Step within the period, `0`-based. */
+  step: number;
+  /** `0` for the lower row, which tiles the path; `1` and up for shorter rows drawn over its back edge. */
+  row: number;
+  /**
+   * Upper rows only: centre of the key measured in lower-row keys from the
+   * start of the period, e.g. `1` for the seam after the first lower key.
+   */
+  at?: number;
+  /** Upper rows only: width as a fraction of a lower key. Defaults to `blackWidthRatio`. */
+  width?: number;
+  /** Defaults to white for the lower row and black for the others. */
+  color?: KeyColor;
+};
+
+/**
+ * A repeating group of keys, usually an octave. Lower-row keys are laid out
+ * along the path in the order given; upper-row keys sit over them at `at`.
+ * The same step may appear in several rows, as on a Jankó keyboard.
+ */
+export type KeyPattern = {
+  /** Steps in one period: `12` for a piano octave, `19` for 19-EDO. */
+  period: number;
+  /** Name of each step, used for `note` and labels. */
+  names: ReadonlyArray<string>;
+  keys: ReadonlyArray<KeyPatternKey>;
+  /** Depth of each upper row (row 1 first) as a fraction of `thickness`. Defaults to `blackDepth`, shortening toward the back. */
+  rowDepths?: ReadonlyArray<number>;
+  /** Swap the colours of every key, as on a harpsichord. */
+  reverseColors?: boolean;
+};
+
+export type KeyPatternId = 'piano' | 'harpsichord' | '19-edo' | '24-edo' | 'janko' | 'chromatic';
+
+const PIANO_KEYS: KeyPatternKey[] = [
+  { step: 0, row: 0 },
+  { step: 1, row: 1, at: 1 },
+  { step: 2, row: 0 },
+  { step: 3, row: 1, at: 2 },
+  { step: 4, row: 0 },
+  { step: 5, row: 0 },
+  { step: 6, row: 1, at: 4 },
+  { step: 7, row: 0 },
+  { step: 8, row: 1, at: 5 },
+  { step: 9, row: 0 },
+  { step: 10, row: 1, at: 6 },
+  { step: 11, row: 0 },
+];
+
+const PIANO: KeyPattern = { period: 12, names: SHARP_NOTE_NAMES, keys: PIANO_KEYS };
+
+/** Naturals with a row of sharps in front and a shorter row of flats behind; E♯ and B♯ share the seams. */
+const EDO_19: KeyPattern = {
+  period: 19,
+  names: ['C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'E#', 'F', 'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B', 'B#'],
+  keys: [
+    { step: 0, row: 0 },
+    { step: 1, row: 1, at: 1 },
+    { step: 2, row: 2, at: 1 },
+    { step: 3, row: 0 },
+    { step: 4, row: 1, at: 2 },
+    { step: 5, row: 2, at: 2 },
+    { step: 6, row: 0 },
+    { step: 7, row: 1, at: 3, width: 0.4 },
+    { step: 8, row: 0 },
+    { step: 9, row: 1, at: 4 },
+    { step: 10, row: 2, at: 4 },
+    { step: 11, row: 0 },
+    { step: 12, row: 1, at: 5 },
+    { step: 13, row: 2, at: 5 },
+    { step: 14, row: 0 },
+    { step: 15, row: 1, at: 6 },
+    { step: 16, row: 2, at: 6 },
+    { step: 17, row: 0 },
+    { step: 18, row: 1, at: 7, width: 0.4 },
+  ],
+};
+
+/** Where each quarter tone sits, just past the key a quarter tone below it (C+, C#+, D+, …, B+). */
+const QUARTER_TONE_POSITIONS = [0.68, 1.32, 1.68, 2.32, 3, 3.68, 4.32, 4.68, 5.32, 5.68, 6.32, 7];
+
+/** A piano octave with a shorter back row of quarter tones (`+` is a quarter tone up). */
+const EDO_24: KeyPattern = {
+  period: 24,
+  names: SHARP_NOTE_NAMES.flatMap((name) => [name, `${name}+`]),
+  keys: [
+    ...PIANO_KEYS.map((key) => ({ ...key, step: key.step * 2 })),
+    ...QUARTER_TONE_POSITIONS.map((at, index) => ({ step: index * 2 + 1, row: 2, at, width: 0.3 })),
+  ],
+};
+
+const JANKO_LOWER = [0, 2, 4, 6, 8, 10];
+const JANKO_UPPER = [1, 3, 5, 7, 9, 11];
+
+/** Whole-tone rows staggered by a semitone, repeated in four rows so each note can be reached from several. */
+const JANKO: KeyPattern = {
+  period: 12,
+  names: SHARP_NOTE_NAMES,
+  keys: [
+    ...JANKO_LOWER.map((step) => ({ step, row: 0 })),
+    ...JANKO_UPPER.map((step, index) => ({ step, row: 1, at: index + 1, width: 0.8 })),
+    ...JANKO_LOWER.map((step, index) => ({ step, row: 2, at: index + 0.5, width: 0.8 })),
+    ...JANKO_UPPER.map((step, index) => ({ step, row: 3, at: index + 1, width: 0.8 })),
+  ].map((key) => ({ ...key, color: isBlackKey(key.step) ? 'black' : 'white' })),
+  rowDepths: [0.75, 0.5, 0.25],
+};
+
+/** Every semitone in one row, coloured like a piano. */
+const CHROMATIC: KeyPattern = {
+  period: 12,
+  names: SHARP_NOTE_NAMES,
+  keys: SHARP_NOTE_NAMES.map((_name, step) => ({ step, row: 0, color: isBlackKey(step) ? 'black' : 'white' })),
+};
+
+export const KEY_PATTERNS: Readonly<Record<KeyPatternId, KeyPattern>> = {
+  piano: PIANO,
+  harpsichord: { ...PIANO, reverseColors: true },
+  '19-edo': EDO_19,
+  '24-edo': EDO_24,
+  janko: JANKO,
+  chromatic: CHROMATIC,
+};
+
+export function resolveKeyPattern(pattern: KeyPatternId | KeyPattern | undefined): KeyPattern {
+  if (pattern == null) {
+    return PIANO;
+  }
+  if (typeof pattern !== 'string') {
+    return pattern;
+  }
+  const builtIn = KEY_PATTERNS[pattern];
+  if (!builtIn) {
+    console.warn(`curved-piano-keys: keyPattern "${pattern}" was not found. Falling back to "piano".`);
+  }
+  return builtIn ?? PIANO;
+}
+
+/**
+ * Resolves a note to a step number in `pattern`, counted like MIDI so that
+ * step `period * (octave + 1)` starts each octave. Names use the pattern's
+ * step names (`"Db4"` in 19-EDO); 12-step patterns also accept any note name.
+ */
+export function patternNoteToStep(pattern: KeyPattern, note: NoteInput): number | null {
+  if (pattern.period === 12 || typeof note === 'number') {
+    return noteToMidi(note);
+  }
+  const match = /^(.+?)(-?\d+)$/.exec(note.trim());
+  const degree = match ? pattern.names.indexOf(match[1]) : -1;
+  if (!match || degree === -1) {
+    return null;
+  }
+  return (Number(match[2]) + 1) * pattern.period + degree;
+}
+
+/** Name of step number `step` in `pattern`, e.g. `"Db4"` in 19-EDO; the inverse of `patternNoteToStep`. */
+export function patternStepName(pattern: KeyPattern, step: number) {
+  const { period } = pattern;
+  const degree = ((step % period) + period) % period;
+  return `${pattern.names[degree] ?? degree}${Math.floor(step / period) - 1}`;
+}
@@ -0,0 +1,1035 @@
+import { DEFAULTS } from './defaults';
+import { resolveKeyPattern, patternNoteToStep, type KeyPattern, type KeyPatternKey } from './keyPatterns';
+import type { KeyColor, NoteInput } from './notes';
+import { createPathGeometry, type PathGeometry, type PathSample, type PathSubpath, type Point } from './pathGeometry';
+
+import type { CurvedPianoKeysProps } from './CurvedPianoKeys';
+
+/** Geometry-affecting subset of `CurvedPianoKeysProps`. */
+export type KeyboardLayoutOptions = Pick<
+  CurvedPianoKeysProps,
+  | 'numWhiteKeys'
+  | 'lowNote'
+  | 'highNote'
+  | 'whiteKeyDensity'
+  | 'startOn'
+  | 'startAt'
+  | 'thickness'
+  | 'whiteKeySpan'
+  | 'blackWidthRatio'
+  | 'blackDepth'
+  | 'orientation'
+  | 'keyShape'
+  | 'overlapStrategy'
+  | 'blackKeyLayout'
+  | 'keyPattern'
+  | 'subpaths'
+  | 'align'
+  | 'pathStart'
+  | 'pathEnd'
+  | 'direction'
+> & {
+  /**
+   * Screen pixels per path unit. When set, `whiteKeyDensity` spans are
+   * measured in on-screen pixels instead of path units.
+   */
+  pixelsPerUnit?: number;
+  /** How a derived key count is placed. See `KeepRange`. Defaults to `'octaves'` on closed paths. */
+  keepRange?: KeepRange;
+};
+
+/**
+ * Where a derived key count goes: `'start'` grows from the first note,
+ * `'octaves'` also rounds it to whole octaves (an explicit `numWhiteKeys` is
+ * kept as given), and `'center'` grows both ways
+ * around the middle of `lowNote`–`highNote` (middle C when neither is set).
+ */
+export type KeepRange = 'start' | 'octaves' | 'center';
+
+/** A point along the path: a fraction (0-1) of its length, or `{ length }` in path units from its start. */
+export type PathPosition = number | { length: number };
+
+/**
+ * Where keys go when they do not fill the path, e.g. with `whiteKeySpan`:
+ * packed at the `'start'`, `'center'` or `'end'`, or stretched to fill it
+ * (`'justify'`).
+ */
+export type KeyAlign = 'start' | 'center' | 'end' | 'justify';
+
+/** `'reverse'` puts the lowest note at the end of the path instead of the start. */
+export type KeyDirection = 'forward' | 'reverse';
+
+/** Range of one subpath's keyboard; see `SubpathLayout`. */
+export type SubpathRange = Pick<CurvedPianoKeysProps, 'lowNote' | 'highNote' | 'numWhiteKeys'>;
+
+/**
+ * How a path with several subpaths is keyed: `'continuous'` carries one
+ * keyboard from each subpath to the next without a key across the jumps,
+ * `'separate'` gives every subpath its own keyboard with the same range
+ * options, and a list of ranges gives subpath `i` the range at index `i`.
+ */
+export type SubpathLayout = 'continuous' | 'separate' | ReadonlyArray<SubpathRange>;
+
+export type KeyLayout = {
+  /**
+   * Unique within the layout, unlike `midi`: patterns such as Jankó and
+   * `subpaths: 'separate'` repeat a note on several keys.
+   */
+  id: string;
+  /** MIDI number, or the step number counted the same way for patterns with other than 12 steps. */
+  midi: number;
+  /** Scientific pitch name, e.g. `"C#4"`. */
+  note: string;
+  /** Name of the step within the octave, e.g. `"C#"`. */
+  pitchClass: string;
+  octave: number;
+  color: KeyColor;
+  /** `0` for the lower row (white keys on a piano), higher for the rows over its back edge. */
+  row: number;
+  /** Position in `whiteKeys` (lower row) or `blackKeys` (upper rows). */
+  index: number;
+  /** Index in `path.subpaths` of the subpath the key lies on. */
+  subpath: number;
+  /** Polygon outline in path coordinates. */
+  polygon: Point[];
+  centroid: Point;
+  /**
+   * Offsets along the path covered by the key, `[start, end]`. On a closed
+   * path a key straddling the start point runs past `totalLength`.
+   */
+  range: [number, number];
+  /** Point, tangent and normal on the path at the centre of `range`. */
+  center: PathSample;
+  /**
+   * Signed offsets along `center.n` of the key's back edge (where black keys
+   * attach) and its front edge.
+   */
+  depthRange: [number, number];
+};
+
+export type KeyboardLayout = {
+  /** Every key sorted by MIDI number. */
+  keys: KeyLayout[];
+  /** Lower-row keys in path order: the white keys on a piano. */
+  whiteKeys: KeyLayout[];
+  /** Upper-row keys, back rows last so they draw on top: the black keys on a piano. */
+  blackKeys: KeyLayout[];
+  pattern: KeyPattern;
+  /** Span of a single lower-row key along the path. */
+  whiteKeySpan: number;
+  totalLength: number;
+  /** The path is a loop and the keys go all the way round it. */
+  closed: boolean;
+  /** Problems found in the path, such as bends too tight for the keyboard's thickness. */
+  warnings: GeometryWarning[];
+};
+
+/**
+ * What to do where the path bends tighter than `thickness / 2`: `'none'`
+ * leaves the overlapping keys as they are, `'clamp'` shortens those keys so
+ * they stay inside the bend, `'fan'` pulls each inner corner toward the centre
+ * of curvature so the keys fan out like spokes, and `'skip'` leaves them out.
+ */
+export type OverlapStrategy = 'none' | 'clamp' | 'fan' | 'skip';
+
+export type GeometryWarning = {
+  type: 'overlap';
+  /** Offsets along the path, `[start, end]`, where neighbouring keys overlap. */
+  range: [number, number];
+  /** Tightest radius of curvature inside `range`. */
+  minRadius: number;
+  /** MIDI numbers of the keys touching `range`. */
+  midis: number[];
+  message: string;
+};
+
+type WhiteKeyDensity = 'xs' | 'sm' | 'md' | 'lg' | 'xl';
+export type WhiteKeyDensitySetting = WhiteKeyDensity;
+
+export const WHITE_KEY_DENSITY_SPANS: Record<WhiteKeyDensity, number> = {
+  xs: 10,
+  sm: 12.5,
+  md: 15,
+  lg: 18,
+  xl: 21.5,
+};
+
+const MIN_WHITE_KEYS = 12;
+
+/** Highest MIDI note number; derived ranges on 12-step patterns stop here. */
+const MAX_MIDI = 127;
+
+/**
+ * Thickness that varies along the path: a function of normalised position
+ * (`0` at the start, `1` at the end), or `[position, thickness]` stops that are
+ * interpolated linearly and held beyond the first and last stop.
+ */
+export type ThicknessProfile = ((position: number) => number) | ReadonlyArray<readonly [number, number]>;
+
+/** Positions sampled to find the thickest point of a profile. */
+const THICKNESS_SAMPLES = 64;
+
+/** Turns a `thickness` setting into the thickness at a path offset. */
+function resolveThickness(thickness: number | ThicknessProfile, totalLength: number): (s: number) => number {
+  const position = (s: number) => (totalLength > 0 ? s / totalLength : 0);
+  const sanitize = (value: number) => (Number.isFinite(value) ? Math.max(0, value) : 0);
+  if (typeof thickness === 'number') {
+    const value = sanitize(thickness);
+    return () => value;
+  }
+  if (typeof thickness === 'function') {
+    return (s) => sanitize(thickness(position(s)));
+  }
+  const stops = [...thickness].sort((a, b) => a[0] - b[0]);
+  if (stops.length === 0) {
+    console.warn('curved-piano-keys: thickness has no stops. Falling back to the default thickness.');
+    return () => DEFAULTS.thickness;
+  }
+  return (s) => {
+    const at = position(s);
+    const next = stops.findIndex(([stop]) => stop >= at);
+    if (next === -1) {
+      return sanitize(stops[stops.length - 1][1]);
+    }
+    if (next === 0) {
+      return sanitize(stops[0][1]);
+    }
+    const [p0, t0] = stops[next - 1];
+    const [p1, t1] = stops[next];
+    return sanitize(p1 === p0 ? t1 : t0 + ((t1 - t0) * (at - p0)) / (p1 - p0));
+  };
+}
+
+/** `'straight'` keys are quads between their boundaries; `'curved'` keys follow the path. */
+export type KeyShape = 'straight' | 'curved';
+
+/** Black pitch classes, the ones `BLACK_FRACTIONS` and custom `blackKeyLayout` offsets are keyed by. */
+export type BlackPitchClass = 'C#' | 'D#' | 'F#' | 'G#' | 'A#';
+
+/**
+ * Share (0-1) of each black key's width that lies over the white key below
+ * it, keeping the values the component has always shipped: C#, F# and A#
+ * lean toward their lower neighbour, D# toward its upper one and G# is centred.
+ */
+export const BLACK_FRACTIONS: Readonly<Record<BlackPitchClass, number>> = {
+  'C#': 0.6,
+  'D#': 0.4,
+  'F#': 0.6,
+  'G#': 0.5,
+  'A#': 0.6,
+};
+
+/**
+ * `'centered'` puts every black key on the seam between its white keys,
+ * `'realistic'` uses `BLACK_FRACTIONS`, and an object overrides the fraction
+ * per pitch class, falling back to `BLACK_FRACTIONS`.
+ */
+export type BlackKeyLayout = 'centered' | 'realistic' | Partial<Record<BlackPitchClass, number>>;
+
+function blackKeyFraction(layout: BlackKeyLayout, pitchClass: string) {
+  if (layout === 'centered' || !(pitchClass in BLACK_FRACTIONS)) {
+    return 0.5;
+  }
+  const key = pitchClass as BlackPitchClass;
+  const fraction = (layout === 'realistic' ? undefined : layout[key]) ?? BLACK_FRACTIONS[key];
+  return Number.isFinite(fraction) ? Math.max(0, Math.min(1, fraction)) : 0.5;
+}
+
+/** Octave of the first key for each `startOn` value (A0 and C1, the lowest of each on an 88-key piano). */
+const START_OCTAVES = { A: 0, C: 1 } as const;
+
+/** Largest bend, as the cosine of the tangent angle, allowed across one edge of a curved key (about 12°). */
+const MIN_EDGE_COS = Math.cos((12 * Math.PI) / 180);
+
+/** Allowed gap between a curved key edge and the true offset curve, relative to the key's size. */
+const CURVE_TOLERANCE = 0.002;
+
+const MAX_SUBDIVISION_DEPTH = 8;
+
+/** Share of the radius of curvature an inner edge may reach under the `'clamp'` and `'fan'` strategies. */
+const SAFE_RADIUS_FRACTION = 0.9;
+
+function offsetPoint(sample: PathSample, offset: number): Point {
+  return { x: sample.p.x + sample.n.x * offset, y: sample.p.y + sample.n.y * offset };
+}
+
+type EdgeSample = { s: number; sample: PathSample };
+
+/**
+ * Samples `[s0, s1]` densely enough that both offset edges stay within
+ * tolerance of the true offset curves: tighter bends get more points.
+ */
+function subdivideEdge(path: PathGeometry, s0: number, s1: number, offsets: [number, number]): EdgeSample[] {
+  const tolerance = CURVE_TOLERANCE * (s1 - s0 + Math.abs(offsets[1] - offsets[0]));
+  const samples: EdgeSample[] = [{ s: s0, sample: path.sampleAt(s0) }];
+
+  const refine = (a: PathSample, sa: number, b: PathSample, sb: number, depth: number) => {
+    const sm = (sa + sb) / 2;
+    const middle = path.sampleAt(sm);
+    const bent = a.t.x * b.t.x + a.t.y * b.t.y < MIN_EDGE_COS;
+    const deviates = offsets.some((offset) => {
+      const start = offsetPoint(a, offset);
+      const end = offsetPoint(b, offset);
+      const point = offsetPoint(middle, offset);
+      return Math.hypot(point.x - (start.x + end.x) / 2, point.y - (start.y + end.y) / 2) > tolerance;
+    });
+    if (depth < MAX_SUBDIVISION_DEPTH && (bent || deviates)) {
+      refine(a, sa, middle, sm, depth + 1);
+      refine(middle, sm, b, sb, depth + 1);
+    } else {
+      samples.push({ s: sb, sample: b });
+    }
+  };
+
+  refine(samples[0].sample, s0, path.sampleAt(s1), s1, 0);
+  return samples;
+}
+
+/** Adjusts an edge's offset from the path at path offset `s`, e.g. to taper it or keep it inside a bend. */
+type OffsetAdjust = (s: number, offset: number) => number;
+
+/**
+ * Outline of the band between two offsets from the path over `[s0, s1]`: the
+ * `near` edge forwards, then the `far` edge back. Straight keys use the four
+ * corners; curved keys follow the offset curves.
+ */
+function makeKeyPolygon(
+  path: PathGeometry,
+  s0: number,
+  s1: number,
+  near: number,
+  far: number,
+  shape: KeyShape,
+  adjust: OffsetAdjust = (_s, offset) => offset,
+): Point[] {
+  const samples =
+    shape === 'curved'
+      ? subdivideEdge(path, s0, s1, [near, far])
+      : [
+          { s: s0, sample: path.sampleAt(s0) },
+          { s: s1, sample: path.sampleAt(s1) },
+        ];
+  const nearEdge = samples.map(({ s, sample }) => offsetPoint(sample, adjust(s, near)));
+  const farEdge = samples.map(({ s, sample }) => offsetPoint(sample, adjust(s, far))).reverse();
+  return [...nearEdge, ...farEdge];
+}
+
+/** Signed curvature (positive when turning toward `n`) from the change in tangent across `[s - h, s + h]`. */
+function curvatureAt(path: PathGeometry, s: number, h: number) {
+  const a = path.closed ? s - h : Math.max(0, s - h);
+  const b = path.closed ? s + h : Math.min(path.totalLength, s + h);
+  if (b <= a) {
+    return 0;
+  }
+  const ta = path.tangentAt(a);
+  const tb = path.tangentAt(b);
+  return Math.atan2(ta.x * tb.y - ta.y * tb.x, ta.x * tb.x + ta.y * tb.y) / (b - a);
+}
+
+/** Largest curvature toward `+n` and toward `-n` across `[s0, s1]`. */
+function curvatureBounds(path: PathGeometry, s0: number, s1: number, step: number) {
+  const count = Math.max(1, Math.ceil((s1 - s0) / step));
+  let toward = 0;
+  let away = 0;
+  for (let index = 0; index <= count; index += 1) {
+    const curvature = curvatureAt(path, s0 + ((s1 - s0) * index) / count, step / 2);
+    toward = Math.max(toward, curvature);
+    away = Math.max(away, -curvature);
+  }
+  return { toward, away };
+}
+
+/** Pulls an offset back inside the radius of curvature on the side it points to. */
+function limitToRadius(offset: number, toward: number, away: number) {
+  if (offset > 0 && toward > 0) {
+    return Math.min(offset, SAFE_RADIUS_FRACTION / toward);
+  }
+  if (offset < 0 && away > 0) {
+    return Math.max(offset, -SAFE_RADIUS_FRACTION / away);
+  }
+  return offset;
+}
+
+type OverlapRegion = { range: [number, number]; minRadius: number; halfThickness: number; midis: number[] };
+
+/**
+ * Finds the stretches of path whose radius of curvature is below half the
+ * local thickness, where offset edges on the inner side fold back on
+ * themselves and neighbouring keys cross into bow-ties.
+ */
+function findOverlapRegions(
+  path: PathGeometry,
+  halfThicknessAt: (s: number) => number,
+  step: number,
+): OverlapRegion[] {
+  const regions: OverlapRegion[] = [];
+  let current: OverlapRegion | null = null;
+  const count = Math.max(1, Math.ceil(path.totalLength / step));
+  for (let index = 0; index <= count; index += 1) {
+    const s = (path.totalLength * index) / count;
+    const radius = 1 / Math.abs(curvatureAt(path, s, step / 2));
+    const halfThickness = halfThicknessAt(s);
+    if (radius >= halfThickness) {
+      current = null;
+      continue;
+    }
+    const start = Math.max(0, s - step / 2);
+    const end = Math.min(path.totalLength, s + step / 2);
+    if (current) {
+      current.range[1] = end;
+      if (radius < current.minRadius) {
+        current.minRadius = radius;
+        current.halfThickness = halfThickness;
+      }
+    } else {
+      current = { range: [start, end], minRadius: radius, halfThickness, midis: [] };
+      regions.push(current);
+    }
+  }
+  return regions;
+}
+
+/** Area centroid of a simple polygon, falling back to the vertex mean when degenerate. */
+function polygonCentroid(points: Point[]): Point {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  if (Math.abs(area) < 1e-9) {
+    const sum = points.reduce((acc, point) => ({ x: acc.x + point.x, y: acc.y + point.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+  }
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+/** Sets each key's `id` from its final subpath, row and index. */
+function assignKeyIds(keys: KeyLayout[]) {
+  keys.forEach((key) => {
+    key.id = `${key.subpath}-${key.row}-${key.index}`;
+  });
+  return keys;
+}
+
+type KeyPitch = Pick<KeyLayout, 'midi' | 'note' | 'pitchClass' | 'octave' | 'color' | 'row'>;
+
+function makeKey(
+  pitch: KeyPitch,
+  index: number,
+  subpath: number,
+  range: [number, number],
+  center: PathSample,
+  depthRange: [number, number],
+  polygon: Point[],
+): KeyLayout {
+  return {
+    ...pitch,
+    id: '',
+    index,
+    subpath,
+    polygon,
+    centroid: polygonCentroid(polygon),
+    range,
+    center,
+    depthRange,
+  };
+}
+
+/**
+ * Consecutive lower-row slots laid along one subpath. Offsets are local to
+ * the subpath: slot `first` begins at `start`, and keys are kept within
+ * `[from, to]`.
+ */
+type SlotRun = {
+  subpath: number;
+  part: PathSubpath;
+  first: number;
+  count: number;
+  span: number;
+  start: number;
+  from: number;
+  to: number;
+};
+
+/** Share of the space left over that goes before the keys. */
+const ALIGN_SHARES: Record<KeyAlign, number> = { start: 0, center: 0.5, end: 1, justify: 0 };
+
+function resolvePathPosition(position: PathPosition | undefined, totalLength: number, fallback: number) {
+  if (position == null) {
+    return fallback;
+  }
+  const offset = typeof position === 'number' ? position * totalLength : position.length;
+  return Number.isFinite(offset) ? Math.max(0, Math.min(totalLength, offset)) : fallback;
+}
+
+/**
+ * Shares `slotCount` lower-row slots between the parts of the subpaths inside
+ * `[trimStart, trimEnd]` in proportion to their length, so the keyboard
+ * carries on from one to the next and no key spans the jump between two.
+ */
+function allocateSlots(parts: PathSubpath[], slotCount: number, trimStart: number, trimEnd: number): SlotRun[] {
+  const windows = parts.map(({ offset, geometry }) => {
+    const from = Math.max(0, Math.min(geometry.totalLength, trimStart - offset));
+    const to = Math.max(from, Math.min(geometry.totalLength, trimEnd - offset));
+    return { from, to };
+  });
+  const usable = windows.reduce((sum, { from, to }) => sum + to - from, 0);
+  const shares = windows.map(({ from, to }) => (usable > 0 ? ((to - from) / usable) * slotCount : 0));
+  const counts = shares.map((share) => Math.floor(share));
+  let left = slotCount - counts.reduce((sum, count) => sum + count, 0);
+  // The largest remainders take the slots left over.
+  shares
+    .map((share, index) => ({ index, remainder: share - counts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (left > 0) {
+        counts[index] += 1;
+        left -= 1;
+      }
+    });
+
+  const runs: SlotRun[] = [];
+  let first = 0;
+  parts.forEach((part, subpath) => {
+    const { from, to } = windows[subpath];
+    const count = counts[subpath];
+    if (count > 0) {
+      runs.push({ subpath, part, first, count, span: (to - from) / count, start: from, from, to });
+    }
+    first += count;
+  });
+  return runs;
+}
+
+/** Lays out one keyboard per subpath, each measured on its own, and merges them. */
+function computeSeparateKeyboards(path: PathGeometry, options: KeyboardLayoutOptions): KeyboardLayout {
+  const ranges = typeof options.subpaths === 'object' ? options.subpaths : [];
+  const layouts = path.subpaths.map(({ geometry }, index) => {
+    const range = ranges[index];
+    const own = range ? { lowNote: range.lowNote, highNote: range.highNote, numWhiteKeys: range.numWhiteKeys } : {};
+    return computeKeyboardLayout(geometry, { ...options, ...own, subpaths: undefined });
+  });
+
+  // Ranges move from each subpath's own offsets to offsets along the whole path.
+  const shift = <T extends { range: [number, number] }>(item: T, subpath: number): T => {
+    const { offset } = path.subpaths[subpath];
+    return { ...item, range: [item.range[0] + offset, item.range[1] + offset] };
+  };
+  const whiteKeys = layouts
+    .flatMap((layout, subpath) => layout.whiteKeys.map((key) => ({ ...shift(key, subpath), subpath })))
+    .map((key, index) => ({ ...key, index }));
+  const blackKeys = layouts
+    .flatMap((layout, subpath) => layout.blackKeys.map((key) => ({ ...shift(key, subpath), subpath })))
+    .sort((a, b) => a.row - b.row)
+    .map((key, index) => ({ ...key, index }));
+  // The same notes repeat on every subpath, so ids are renewed from the merged indices.
+  const keys = assignKeyIds([...whiteKeys, ...blackKeys]).sort((a, b) => a.midi - b.midi || a.subpath - b.subpath);
+  const warnings = layouts.flatMap((layout, subpath) => layout.warnings.map((warning) => shift(warning, subpath)));
+  const whiteLength = layouts.reduce((sum, layout) => sum + layout.whiteKeySpan * layout.whiteKeys.length, 0);
+
+  return {
+    keys,
+    whiteKeys,
+    blackKeys,
+    pattern: layouts[0].pattern,
+    whiteKeySpan: whiteKeys.length > 0 ? whiteLength / whiteKeys.length : 0,
+    totalLength: path.totalLength,
+    closed: false,
+    warnings,
+  };
+}
+
+function resolveNote(pattern: KeyPattern, note: NoteInput | undefined, prop: string) {
+  if (note == null) {
+    return null;
+  }
+  const midi = patternNoteToStep(pattern, note);
+  if (midi == null) {
+    console.warn(`curved-piano-keys: ${prop} "${note}" is not a valid note. Ignoring it.`);
+  }
+  return midi;
+}
+
+/** Steps from `from` in `direction` until `count` lower-row keys have been passed, returning the last one. */
+function walkLowerKeys(from: number, count: number, direction: 1 | -1, isLower: (midi: number) => boolean) {
+  let midi = from;
+  let seen = isLower(midi) ? 1 : 0;
+  while (seen < count) {
+    midi += direction;
+    if (isLower(midi)) {
+      seen += 1;
+    }
+  }
+  return midi;
+}
+
+/**
+ * Computes the keyboard drawn by `CurvedPianoKeys` without React or a DOM:
+ * one record per key with its pitch, polygon and local path frame.
+ */
+export function computeKeyboardLayout(d: string | PathGeometry, options: KeyboardLayoutOptions = {}): KeyboardLayout {
+  const path = typeof d === 'string' ? createPathGeometry(d) : d;
+  if (path.subpaths.length > 1 && options.subpaths != null && options.subpaths !== 'continuous') {
+    return computeSeparateKeyboards(path, options);
+  }
+  const {
+    numWhiteKeys,
+    whiteKeyDensity = DEFAULTS.whiteKeyDensity,
+    startOn = DEFAULTS.startOn,
+    startAt = 0,
+    thickness = DEFAULTS.thickness,
+    whiteKeySpan,
+    blackWidthRatio = DEFAULTS.blackWidthRatio,
+    blackDepth = DEFAULTS.blackDepth,
+    orientation = DEFAULTS.orientation,
+    keyShape = DEFAULTS.keyShape,
+    overlapStrategy = DEFAULTS.overlapStrategy,
+    blackKeyLayout = DEFAULTS.blackKeyLayout,
+    align = DEFAULTS.align,
+    direction = DEFAULTS.direction,
+    pixelsPerUnit,
+  } = options;
+
+  let pattern = resolveKeyPattern(options.keyPattern);
+  if (!pattern.keys.some((key) => key.row === 0) || !(pattern.period > 0)) {
+    console.warn('curved-piano-keys: keyPattern needs a period and at least one lower-row key. Using "piano".');
+    pattern = resolveKeyPattern('piano');
+  }
+  const { period } = pattern;
+  const degreeOf = (midi: number) => ((midi % period) + period) % period;
+  const patternKeys: KeyPatternKey[][] = Array.from({ length: period }, () => []);
+  pattern.keys.forEach((key) => patternKeys[degreeOf(key.step)].push(key));
+  const lowerDegrees = pattern.keys.filter((key) => key.row === 0).map((key) => degreeOf(key.step));
+  const isLower = (midi: number) => lowerDegrees.includes(degreeOf(midi));
+  // Lower-row keys below `midi`, counted from step 0.
+  const lowerBefore = (midi: number) =>
+    Math.floor(midi / period) * lowerDegrees.length + lowerDegrees.filter((degree) => degree < degreeOf(midi)).length;
+  const maxRow = Math.max(...pattern.keys.map((key) => key.row));
+  const sortedLower = [...lowerDegrees].sort((a, b) => a - b);
+  // The lower-row key that has `slot` lower-row keys below it.
+  const lowerKeyAt = (slot: number) => {
+    const octaves = Math.floor(slot / sortedLower.length);
+    return octaves * period + sortedLower[slot - octaves * sortedLower.length];
+  };
+  // Middle of the requested range in lower-row keys; middle C when there is none.
+  const centerSlot = (low: number | null, high: number | null) => {
+    if (low != null && high != null) {
+      return (lowerBefore(low) + lowerBefore(high + 1)) / 2;
+    }
+    const note = low ?? high ?? 5 * period;
+    return lowerBefore(note) + (isLower(note) ? 0.5 : 0);
+  };
+
+  const pitchOf = (midi: number, key: KeyPatternKey): KeyPitch => {
+    const pitchClass = pattern.names[degreeOf(midi)] ?? String(degreeOf(midi));
+    const octave = Math.floor(midi / period) - 1;
+    const baseColor = key.color ?? (key.row === 0 ? 'white' : 'black');
+    const flipped = baseColor === 'white' ? 'black' : 'white';
+    return {
+      midi,
+      note: `${pitchClass}${octave}`,
+      pitchClass,
+      octave,
+      color: pattern.reverseColors ? flipped : baseColor,
+      row: key.row,
+    };
+  };
+
+  const { totalLength } = path;
+  let trimStart = resolvePathPosition(options.pathStart, totalLength, 0);
+  let trimEnd = resolvePathPosition(options.pathEnd, totalLength, totalLength);
+  if (trimEnd <= trimStart && totalLength > 0) {
+    console.warn('curved-piano-keys: pathEnd must come after pathStart. Using the whole path.');
+    trimStart = 0;
+    trimEnd = totalLength;
+  }
+  const usableLength = trimEnd - trimStart;
+  // A trimmed loop is keyed like an open path between the two ends.
+  const closed = path.closed && trimStart === 0 && trimEnd === totalLength;
+  const wrap = (s: number) => (closed ? ((s % totalLength) + totalLength) % totalLength : s);
+  const densitySpan = WHITE_KEY_DENSITY_SPANS[whiteKeyDensity] ?? WHITE_KEY_DENSITY_SPANS[DEFAULTS.whiteKeyDensity];
+  const targetSpan = pixelsPerUnit && pixelsPerUnit > 0 ? densitySpan / pixelsPerUnit : densitySpan;
+
+  let lowMidi = resolveNote(pattern, options.lowNote, 'lowNote');
+  let highMidi = resolveNote(pattern, options.highNote, 'highNote');
+  if (lowMidi != null && highMidi != null && lowMidi > highMidi) {
+    [lowMidi, highMidi] = [highMidi, lowMidi];
+  }
+  // A derived count on a loop is rounded to whole octaves so the pattern carries on across the start.
+  // Step numbers of other patterns are not MIDI notes, so only the bottom is bounded for them.
+  const maxMidi = period === 12 ? MAX_MIDI : Infinity;
+  const keepRange =
+    options.keepRange ?? (closed && numWhiteKeys == null && (lowMidi == null || highMidi == null) ? 'octaves' : undefined);
+
+  if (lowMidi == null || highMidi == null || keepRange != null) {
+    let whiteCount: number;
+    if (numWhiteKeys != null) {
+      whiteCount = Math.max(1, Math.floor(numWhiteKeys));
+    } else if (whiteKeySpan && whiteKeySpan > 0) {
+      whiteCount = Math.max(1, Math.round(usableLength / whiteKeySpan));
+    } else {
+      whiteCount = Math.max(MIN_WHITE_KEYS, Math.round(usableLength / targetSpan));
+    }
+    if (keepRange === 'octaves' && numWhiteKeys == null) {
+      whiteCount = Math.max(1, Math.round(whiteCount / lowerDegrees.length)) * lowerDegrees.length;
+    }
+
+    if (keepRange === 'center') {
+      lowMidi = lowerKeyAt(Math.round(centerSlot(lowMidi, highMidi) - whiteCount / 2));
+      highMidi = walkLowerKeys(lowMidi, whiteCount, 1, isLower);
+    } else if (highMidi != null && lowMidi == null) {
+      lowMidi = walkLowerKeys(highMidi, whiteCount, -1, isLower);
+    } else {
+      if (lowMidi == null) {
+        const startDegree = pattern.names.indexOf(startOn);
+        lowMidi = startDegree === -1 ? 2 * period : (START_OCTAVES[startOn] + 1) * period + startDegree;
+      }
+      highMidi = walkLowerKeys(lowMidi, whiteCount, 1, isLower);
+    }
+
+    if (lowMidi < 0 || highMidi > maxMidi) {
+      const source = numWhiteKeys != null ? `numWhiteKeys (${numWhiteKeys})` : 'The path length at this density';
+      console.warn(
+        `curved-piano-keys: ${source} asks for keys outside MIDI notes 0-127. The range is cut to fit; ` +
+          'set lowNote/highNote or a wider whiteKeyDensity to choose the keys.',
+      );
+      lowMidi = Math.max(0, lowMidi);
+      highMidi = Math.min(maxMidi, highMidi);
+    }
+  }
+
+  const lowerSpecs: Array<{ midi: number; key: KeyPatternKey }> = [];
+  const upperSpecs: Array<{ midi: number; key: KeyPatternKey; slot: number }> = [];
+  const firstSlot = lowerBefore(lowMidi);
+  for (let midi = lowMidi; midi <= highMidi; midi += 1) {
+    for (const key of patternKeys[degreeOf(midi)]) {
+      if (key.row === 0) {
+        lowerSpecs.push({ midi, key });
+      } else {
+        upperSpecs.push({ midi, key, slot: lowerBefore(midi - degreeOf(midi)) - firstSlot + (key.at ?? 0) });
+      }
+    }
+  }
+  // On a loop of whole octaves the upper keys above the last lower key sit
+  // between it and the first one, straddling the start.
+  if (closed && isLower(lowMidi) && lowerSpecs.length % lowerDegrees.length === 0) {
+    for (let midi = highMidi + 1; !isLower(midi) && midi <= maxMidi; midi += 1) {
+      for (const key of patternKeys[degreeOf(midi)]) {
+        upperSpecs.push({ midi, key, slot: lowerBefore(midi - degreeOf(midi)) - firstSlot + (key.at ?? 0) });
+      }
+    }
+  }
+  // Back rows draw over front ones, so they come last.
+  upperSpecs.sort((a, b) => a.key.row - b.key.row || a.slot - b.slot);
+
+  // A range made only of upper-row keys still needs one slot to sit in.
+  const slotCount = Math.max(1, lowerSpecs.length);
+  const parts = path.subpaths.length > 0 ? path.subpaths : [{ offset: 0, geometry: path }];
+  // Keys on a loop or across several subpaths always fill them exactly, whatever `whiteKeySpan` says.
+  const span =
+    parts.length === 1 && !closed && align !== 'justify' && whiteKeySpan && whiteKeySpan > 0
+      ? whiteKeySpan
+      : usableLength / slotCount;
+  const origin = closed && Number.isFinite(startAt) ? startAt * totalLength : 0;
+
+  const runs = parts.length > 1 ? allocateSlots(parts, slotCount, trimStart, trimEnd) : [];
+  if (runs.length === 0) {
+    const leftover = usableLength - slotCount * span;
+    const start = trimStart + leftover * (ALIGN_SHARES[align] ?? 0);
+    runs.push({ subpath: 0, part: parts[0], first: 0, count: slotCount, span, start, from: trimStart, to: trimEnd });
+  }
+  const runOf = (slot: number) => runs.reduce((found, run) => (run.first <= slot ? run : found), runs[0]);
+  // Offset of the start of `slot`, held inside `run` so keys stop at the end of its subpath.
+  const boundaryAt = (slot: number, run: SlotRun) => {
+    if (closed) {
+      return origin + slot * span;
+    }
+    const local = run.start + Math.max(0, Math.min(slot - run.first, run.count)) * run.span;
+    return run.part.offset + Math.max(run.from, Math.min(local, run.to));
+  };
+  // Slots count from the low end of the range; `'reverse'` lays them from the end of the path.
+  const reverse = direction === 'reverse';
+  const place = (slot: number) => (reverse ? slotCount - slot : slot);
+
+  const profileAt = resolveThickness(thickness, totalLength);
+  const thicknessAt = (s: number) => profileAt(wrap(s));
+  let maxThickness = 0;
+  for (let index = 0; index <= THICKNESS_SAMPLES; index += 1) {
+    maxThickness = Math.max(maxThickness, thicknessAt((totalLength * index) / THICKNESS_SAMPLES));
+  }
+
+  // Depths are fractions of the local thickness, measured along the normal.
+  const anchorRatio = orientation === 1 ? -0.5 : 0.5;
+  const whiteRatios: [number, number] = [anchorRatio, -anchorRatio];
+  const rowRatios = (row: number): [number, number] => {
+    const depth = pattern.rowDepths?.[row - 1] ?? (blackDepth * (maxRow - row + 1)) / maxRow;
+    return [anchorRatio, anchorRatio + depth * orientation];
+  };
+
+  const curvatureStep = Math.max(totalLength / 2000, Math.min(span, maxThickness || span) / 4);
+  const overlaps = parts.flatMap(({ offset, geometry }) =>
+    findOverlapRegions(geometry, (s) => thicknessAt(offset + s) / 2, curvatureStep).map(
+      (region): OverlapRegion => ({ ...region, range: [region.range[0] + offset, region.range[1] + offset] }),
+    ),
+  );
+
+  // Builds the key between its back and front edges, tapering with the
+  // thickness and applying `overlapStrategy` where it crosses a tight bend.
+  // Shapes are measured on the key's own subpath, so none reaches across a jump.
+  const placeKey = (
+    pitch: KeyPitch,
+    index: number,
+    range: [number, number],
+    ratios: [number, number],
+    run: SlotRun,
+  ) => {
+    const { offset: base, geometry: local } = run.part;
+    const s0 = range[0] - base;
+    const s1 = range[1] - base;
+    const centerThickness = thicknessAt(base + (s0 + s1) / 2);
+    const depthRange: [number, number] = [ratios[0] * centerThickness, ratios[1] * centerThickness];
+    const taper: OffsetAdjust = (s, offset) =>
+      centerThickness > 0 ? (offset * thicknessAt(base + s)) / centerThickness : 0;
+    const center = local.sampleAt((s0 + s1) / 2);
+
+    // On a loop, compare in the first lap and also one lap on for keys crossing the start.
+    const [g0, g1] = range;
+    const lap = wrap(g0) - g0;
+    const touched = overlaps.filter(
+      ({ range: [r0, r1] }) =>
+        (g0 + lap < r1 && g1 + lap > r0) || (closed && g0 + lap < r1 + totalLength && g1 + lap > r0 + totalLength),
+    );
+    touched.forEach((region) => region.midis.push(pitch.midi));
+    if (touched.length === 0 || overlapStrategy === 'none') {
+      const polygon = makeKeyPolygon(local, s0, s1, depthRange[0], depthRange[1], keyShape, taper);
+      return makeKey(pitch, index, run.subpath, range, center, depthRange, polygon);
+    }
+    if (overlapStrategy === 'skip') {
+      return null;
+    }
+    if (overlapStrategy === 'fan') {
+      const fan: OffsetAdjust = (s, offset) => {
+        const curvature = curvatureAt(local, s, curvatureStep / 2);
+        return limitToRadius(taper(s, offset), Math.max(0, curvature), Math.max(0, -curvature));
+      };
+      const polygon = makeKeyPolygon(local, s0, s1, depthRange[0], depthRange[1], keyShape, fan);
+      return makeKey(pitch, index, run.subpath, range, center, depthRange, polygon);
+    }
+    const { toward, away } = curvatureBounds(local, s0, s1, curvatureStep);
+    const clamp: OffsetAdjust = (s, offset) => limitToRadius(taper(s, offset), toward, away);
+    const polygon = makeKeyPolygon(local, s0, s1, depthRange[0], depthRange[1], keyShape, clamp);
+    const clamped: [number, number] = [clamp((s0 + s1) / 2, depthRange[0]), clamp((s0 + s1) / 2, depthRange[1])];
+    return makeKey(pitch, index, run.subpath, range, center, clamped, polygon);
+  };
+
+  const whiteKeys: KeyLayout[] = [];
+  for (let index = 0; index < lowerSpecs.length; index += 1) {
+    const { midi, key: patternKey } = lowerSpecs[index];
+    const a = place(index);
+    const b = place(index + 1);
+    const run = runOf(Math.min(a, b));
+    const range: [number, number] = [boundaryAt(Math.min(a, b), run), boundaryAt(Math.max(a, b), run)];
+    const key = placeKey(pitchOf(midi, patternKey), whiteKeys.length, range, whiteRatios, run);
+    if (key) {
+      whiteKeys.push(key);
+    }
+  }
+
+  const blackKeys: KeyLayout[] = [];
+  for (const { midi, key: patternKey, slot } of upperSpecs) {
+    // Upper keys sit around their slot position; at either end of the range,
+    // or of a subpath, the missing neighbour is replaced by that end. One on
+    // the jump between subpaths stays with the lower key below it.
+    const below = place(Math.ceil(slot) - 1);
+    const above = place(Math.floor(slot) + 1);
+    const run = runOf(reverse ? below - 1 : below);
+    const minBoundary = boundaryAt(Math.min(below, above), run) + 0.001;
+    const maxBoundary = boundaryAt(Math.max(below, above), run) - 0.001;
+    const seam = boundaryAt(place(slot), run);
+    // Upper keys narrow where the keyboard tapers, relative to its thickest point.
+    const taperScale = maxThickness > 0 ? thicknessAt(seam) / maxThickness : 1;
+    const width = run.span * (patternKey.width ?? blackWidthRatio) * taperScale;
+    const pitch = pitchOf(midi, patternKey);
+    const fraction = patternKey.row === 1 ? blackKeyFraction(blackKeyLayout, pitch.pitchClass) : 0.5;
+    const center = seam + (0.5 - fraction) * width * (reverse ? -1 : 1);
+    let startOffset = center - width / 2;
+    let endOffset = center + width / 2;
+
+    if (startOffset < minBoundary) {
+      const shift = minBoundary - startOffset;
+      startOffset += shift;
+      endOffset += shift;
+    }
+
+    if (endOffset > maxBoundary) {
+      const shift = endOffset - maxBoundary;
+      startOffset -= shift;
+      endOffset -= shift;
+    }
+
+    const s0 = Math.max(minBoundary, startOffset);
+    const s1 = Math.min(maxBoundary, endOffset);
+
+    const key = s1 > s0 ? placeKey(pitch, blackKeys.length, [s0, s1], rowRatios(patternKey.row), run) : null;
+    if (key) {
+      blackKeys.push(key);
+    }
+  }
+
+  if (reverse) {
+    whiteKeys.reverse().forEach((key, index) => {
+      key.index = index;
+    });
+  }
+
+  const keys = assignKeyIds([...whiteKeys, ...blackKeys]).sort((a, b) => a.midi - b.midi);
+
+  const warnings = overlaps.map(
+    ({ range, minRadius, halfThickness, midis }): GeometryWarning => ({
+      type: 'overlap',
+      range,
+      minRadius,
+      midis: midis.sort((a, b) => a - b),
+      message:
+        `Path bends with a radius of ${minRadius.toFixed(1)} between offsets ${range[0].toFixed(1)} and ` +
+        `${range[1].toFixed(1)}, tighter than half the thickness (${halfThickness.toFixed(1)}); ` +
+        'neighbouring keys overlap there.',
+    }),
+  );
+
+  return { keys, whiteKeys, blackKeys, pattern, whiteKeySpan: span, totalLength, closed, warnings };
+}
+
+/** Returns a viewBox string tightly enclosing every key, or `null` when there is nothing to fit. */
+export function getLayoutViewBox(layout: KeyboardLayout, padding: number): string | null {
+  return getPolygonsViewBox(layout.keys.map((key) => key.polygon), padding);
+}
+
+/** Returns a viewBox string tightly enclosing every polygon, or `null` when there is nothing to fit. */
+export function getPolygonsViewBox(polygons: Point[][], padding: number): string | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const polygon of polygons) {
+    for (const point of polygon) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+  }
+
+  if (!Number.isFinite(minX) || !Number.isFinite(minY) || !Number.isFinite(maxX) || !Number.isFinite(maxY)) {
+    return null;
+  }
+
+  const width = maxX - minX + padding * 2;
+  const height = maxY - minY + padding * 2;
+  return `${minX - padding} ${minY - padding} ${width} ${height}`;
+}
+
+/**
+ * Outline of the band between two signed offsets along the normal over
+ * `range`, shaped like the keys: what piano-roll lanes and bars are drawn with.
+ */
+export function getPathBandPolygon(
+  path: PathGeometry,
+  range: [number, number],
+  near: number,
+  far: number,
+  keyShape: KeyShape = DEFAULTS.keyShape,
+): Point[] {
+  // Measured on the subpath holding the band's middle, like the keys.
+  const middle = (range[0] + range[1]) / 2;
+  const { offset, geometry } = path.subpaths.reduce(
+    (found, subpath) => (subpath.offset <= middle ? subpath : found),
+    path.subpaths[0] ?? { offset: 0, geometry: path },
+  );
+  return makeKeyPolygon(geometry, range[0] - offset, range[1] - offset, near, far, keyShape);
+}
+
+function pointInPolygon(point: Point, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Finds the key under a point in path coordinates, checking the topmost keys first. */
+export function hitTestKeyboard(layout: KeyboardLayout, point: Point): KeyLayout | null {
+  for (let index = layout.blackKeys.length - 1; index >= 0; index -= 1) {
+    const key = layout.blackKeys[index];
+    if (pointInPolygon(point, key.polygon)) {
+      return key;
+    }
+  }
+  for (const key of layout.whiteKeys) {
+    if (pointInPolygon(point, key.polygon)) {
+      return key;
+    }
+  }
+  return null;
+}
+
+/**
+ * How far a point sits from the back edge (0) to the front edge (1) of a key,
+ * measured along the key's centre normal.
+ */
+export function keyDepthFraction(key: KeyLayout, point: Point) {
+  const { p, n } = key.center;
+  const offset = (point.x - p.x) * n.x + (point.y - p.y) * n.y;
+  const [back, front] = key.depthRange;
+  const fraction = front === back ? 1 : (offset - back) / (front - back);
+  return Math.max(0, Math.min(1, fraction));
+}
+
+export type KeyLabelFrame = {
+  x: number;
+  y: number;
+  /** Rotation in degrees that aligns text with the path tangent, flipped so it never reads upside down. */
+  angle: number;
+  fontSize: number;
+};
+
+/**
+ * Position, rotation and a font size that fits text inside a key.
+ * `depthFraction` runs from the back edge (0) to the front edge (1); by default
+ * white-key text sits in the front area left uncovered by the black keys.
+ */
+export function getKeyLabelFrame(key: KeyLayout, depthFraction = key.row === 0 ? 0.82 : 0.5): KeyLabelFrame {
+  const width = key.range[1] - key.range[0];
+  const [back, front] = key.depthRange;
+  const offset = back + (front - back) * depthFraction;
+  const { p, t, n } = key.center;
+  // Where the path runs leftward the tangent angle would turn text upside down.
+  let angle = (Math.atan2(t.y, t.x) * 180) / Math.PI;
+  if (angle <= -90) {
+    angle += 180;
+  } else if (angle > 90) {
+    angle -= 180;
+  }
+  return {
+    x: p.x + n.x * offset,
+    y: p.y + n.y * offset,
+    angle,
+    fontSize: Math.min(width * 0.55, Math.abs(front - back) * 0.3),
+  };
+}
+
+/** Formats a polygon for the `points` attribute of a `<polygon>`. */
+export function formatPolygonPoints(points: Point[]) {
+  return points.map((point) => `${point.x},${point.y}`).join(' ');
+}
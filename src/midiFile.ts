@@ -0,0 +1,407 @@
+export type MidiFileNote = {
+  midi: number;
+  /** 0-1. */
+  velocity: number;
+  /** 1-16. */
+  channel: number;
+  /** Index of the track the note came from. */
+  track: number;
+  startTick: number;
+  endTick: number;
+  /** Start in seconds from the beginning of the file. */
+  time: number;
+  /** Length in seconds. */
+  duration: number;
+};
+
+export type MidiFileTrack = {
+  index: number;
+  /** Sequence/track name meta event, or `''`. */
+  name: string;
+  /** Channels (1-16) the track plays notes on. */
+  channels: number[];
+  noteCount: number;
+};
+
+export type MidiTempoChange = {
+  tick: number;
+  time: number;
+  microsecondsPerBeat: number;
+  bpm: number;
+};
+
+export type MidiFile = {
+  /** `0` for a single track, `1` for simultaneous tracks. Format `2` files are read as format `1`. */
+  format: number;
+  /** Ticks per quarter note, or `null` for SMPTE timing. */
+  ticksPerBeat: number | null;
+  tracks: MidiFileTrack[];
+  /** Every note in the file, sorted by start time. */
+  notes: MidiFileNote[];
+  /** Tempo map sorted by tick; always starts at tick 0. */
+  tempos: MidiTempoChange[];
+  /** Seconds until the last note ends. */
+  duration: number;
+};
+
+/** 120 bpm, the SMF default until the first tempo event. */
+const DEFAULT_MICROSECONDS_PER_BEAT = 500_000;
+
+const META_EVENT = 0xff;
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_TEMPO = 0x51;
+
+type RawNote = Omit<MidiFileNote, 'time' | 'duration'>;
+type RawTempo = { tick: number; microsecondsPerBeat: number };
+
+function parseError(message: string): Error {
+  return new Error(`curved-piano-keys: ${message}`);
+}
+
+function createReader(bytes: Uint8Array, start: number, end: number) {
+  let offset = start;
+  const byte = () => {
+    if (offset >= end) {
+      throw parseError('MIDI track ended in the middle of an event.');
+    }
+    const value = bytes[offset];
+    offset += 1;
+    return value;
+  };
+  return {
+    byte,
+    get done() {
+      return offset >= end;
+    },
+    skip(length: number) {
+      offset += length;
+      if (offset > end) {
+        throw parseError('MIDI track ended in the middle of an event.');
+      }
+    },
+    bytes(length: number) {
+      const slice = bytes.subarray(offset, offset + length);
+      this.skip(length);
+      return slice;
+    },
+    /** Variable-length quantity: 7 bits per byte, high bit set on all but the last. */
+    variable() {
+      let value = 0;
+      for (let count = 0; count < 4; count += 1) {
+        const next = byte();
+        value = value * 128 + (next & 0x7f);
+        if ((next & 0x80) === 0) {
+          return value;
+        }
+      }
+      throw parseError('MIDI variable-length number is longer than 4 bytes.');
+    },
+  };
+}
+
+function readChunkType(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function readTrack(bytes: Uint8Array, start: number, end: number, index: number, tempos: RawTempo[]) {
+  const reader = createReader(bytes, start, end);
+  const notes: RawNote[] = [];
+  // Open notes per channel and key, oldest first, so repeated note-ons pair up in order.
+  const open = new Map<number, RawNote[]>();
+  let name = '';
+  let tick = 0;
+  // Last channel status; kept across meta and sysex events, which many writers rely on.
+  let running = 0;
+
+  while (!reader.done) {
+    tick += reader.variable();
+    let status = running;
+    let first = reader.byte();
+    if (first >= 0x80) {
+      status = first;
+      // Channel messages and meta events carry a first data (or type) byte; sysex does not.
+      first = status < 0xf0 || status === META_EVENT ? reader.byte() : 0;
+    } else if (running === 0) {
+      throw parseError(`MIDI track ${index} uses running status without a previous status byte.`);
+    }
+
+    if (status === META_EVENT) {
+      const type = first;
+      const data = reader.bytes(reader.variable());
+      if (type === META_END_OF_TRACK) {
+        break;
+      }
+      if (type === META_TEMPO && data.length >= 3) {
+        tempos.push({ tick, microsecondsPerBeat: (data[0] << 16) | (data[1] << 8) | data[2] });
+      } else if (type === META_TRACK_NAME && !name) {
+        name = String.fromCharCode(...data);
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.variable());
+      continue;
+    }
+    if (status > 0xf0) {
+      throw parseError(`MIDI track ${index} contains an unsupported status byte 0x${status.toString(16)}.`);
+    }
+    running = status;
+
+    const kind = status & 0xf0;
+    const channel = (status & 0x0f) + 1;
+    const second = kind === 0xc0 || kind === 0xd0 ? 0 : reader.byte();
+    const key = channel * 128 + first;
+
+    if (kind === 0x90 && second > 0) {
+      const note = { midi: first, velocity: second / 127, channel, track: index, startTick: tick, endTick: tick };
+      notes.push(note);
+      const queue = open.get(key);
+      if (queue) {
+        queue.push(note);
+      } else {
+        open.set(key, [note]);
+      }
+    } else if (kind === 0x80 || kind === 0x90) {
+      const note = open.get(key)?.shift();
+      if (note) {
+        note.endTick = tick;
+      }
+    }
+  }
+
+  // Notes still held when the track ends last until its end.
+  open.forEach((queue) => queue.forEach((note) => (note.endTick = tick)));
+
+  const channels = Array.from(new Set(notes.map((note) => note.channel))).sort((a, b) => a - b);
+  return { notes, track: { index, name, channels, noteCount: notes.length } };
+}
+
+/**
+ * Parses a Standard MIDI File (format 0 or 1) into notes with times in
+ * seconds. Throws when the data is not a MIDI file or a track is cut short.
+ */
+export function parseMidiFile(data: ArrayBuffer | ArrayBufferView): MidiFile {
+  const bytes =
+    data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 14 || readChunkType(bytes, 0) !== 'MThd') {
+    throw parseError('data is not a Standard MIDI File (missing MThd header).');
+  }
+
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (format === 2) {
+    console.warn('curved-piano-keys: MIDI format 2 sequences are played together as if the file were format 1.');
+  }
+
+  // SMPTE division: frames per second in the high byte (negated), ticks per frame in the low byte.
+  const smpte = (division & 0x8000) !== 0;
+  const ticksPerBeat = smpte ? null : division;
+  const framesPerSecond = smpte ? -((division >> 8) << 24 >> 24) : 0;
+  const secondsPerSmpteTick = smpte ? 1 / ((framesPerSecond === 29 ? 29.97 : framesPerSecond) * (division & 0xff)) : 0;
+
+  const rawTempos: RawTempo[] = [];
+  const rawNotes: RawNote[] = [];
+  const tracks: MidiFileTrack[] = [];
+  let offset = 8 + headerLength;
+  while (offset + 8 <= bytes.length && tracks.length < trackCount) {
+    const type = readChunkType(bytes, offset);
+    const length = view.getUint32(offset + 4);
+    const start = offset + 8;
+    const end = Math.min(start + length, bytes.length);
+    // Unknown chunk types are skipped, as the spec asks.
+    if (type === 'MTrk') {
+      const result = readTrack(bytes, start, end, tracks.length, rawTempos);
+      tracks.push(result.track);
+      rawNotes.push(...result.notes);
+    }
+    offset = start + length;
+  }
+
+  rawTempos.sort((a, b) => a.tick - b.tick);
+  if (rawTempos[0]?.tick !== 0) {
+    rawTempos.unshift({ tick: 0, microsecondsPerBeat: DEFAULT_MICROSECONDS_PER_BEAT });
+  }
+  const tempos: MidiTempoChange[] = [];
+  for (const tempo of rawTempos) {
+    const previous = tempos[tempos.length - 1];
+    const time = previous
+      ? previous.time + ((tempo.tick - previous.tick) * previous.microsecondsPerBeat) / 1e6 / (ticksPerBeat || 1)
+      : 0;
+    tempos.push({ ...tempo, time, bpm: 60e6 / tempo.microsecondsPerBeat });
+  }
+
+  const secondsAt = (tick: number) => {
+    if (smpte) {
+      return tick * secondsPerSmpteTick;
+    }
+    let tempo = tempos[0];
+    for (const change of tempos) {
+      if (change.tick > tick) {
+        break;
+      }
+      tempo = change;
+    }
+    return tempo.time + ((tick - tempo.tick) * tempo.microsecondsPerBeat) / 1e6 / (ticksPerBeat || 1);
+  };
+
+  const notes = rawNotes
+    .map((note) => {
+      const time = secondsAt(note.startTick);
+      return { ...note, time, duration: secondsAt(note.endTick) - time };
+    })
+    .sort((a, b) => a.time - b.time || a.midi - b.midi);
+
+  return {
+    format,
+    ticksPerBeat,
+    tracks,
+    notes,
+    tempos,
+    duration: notes.reduce((end, note) => Math.max(end, note.time + note.duration), 0),
+  };
+}
+
+/** A note timed in seconds, as recorded or drawn on the piano roll. */
+export type TimedNote = {
+  midi: number;
+  time: number;
+  duration: number;
+  /** 0-1. Defaults to `0.8`. */
+  velocity?: number;
+  /** 1-16. Defaults to `1`. */
+  channel?: number;
+};
+
+export type CreateMidiFileOptions = {
+  /** Tempo written to the file. Defaults to `120`. */
+  bpm?: number;
+  /** Defaults to `480`. */
+  ticksPerBeat?: number;
+  /** Track name meta event. */
+  name?: string;
+};
+
+const DEFAULT_TICKS_PER_BEAT = 480;
+
+/**
+ * Builds a single-track `MidiFile` from notes timed in seconds at a fixed
+ * tempo, ready for `createMidiTransport` or `writeMidiFile`.
+ */
+export function createMidiFile(notes: ReadonlyArray<TimedNote>, options: CreateMidiFileOptions = {}): MidiFile {
+  const bpm = options.bpm && options.bpm > 0 ? options.bpm : 60e6 / DEFAULT_MICROSECONDS_PER_BEAT;
+  const ticksPerBeat = Math.min(0x7fff, Math.max(1, Math.round(options.ticksPerBeat ?? DEFAULT_TICKS_PER_BEAT)));
+  const ticksAt = (seconds: number) => Math.max(0, Math.round((seconds * bpm * ticksPerBeat) / 60));
+  const microsecondsPerBeat = Math.round(60e6 / bpm);
+
+  const fileNotes = notes
+    .map((note) => ({
+      midi: note.midi,
+      velocity: note.velocity ?? 0.8,
+      channel: note.channel ?? 1,
+      track: 0,
+      startTick: ticksAt(note.time),
+      endTick: ticksAt(note.time + note.duration),
+      time: Math.max(0, note.time),
+      duration: Math.max(0, note.duration),
+    }))
+    .sort((a, b) => a.time - b.time || a.midi - b.midi);
+  const channels = Array.from(new Set(fileNotes.map((note) => note.channel))).sort((a, b) => a - b);
+
+  return {
+    format: 0,
+    ticksPerBeat,
+    tracks: [{ index: 0, name: options.name ?? '', channels, noteCount: fileNotes.length }],
+    notes: fileNotes,
+    tempos: [{ tick: 0, time: 0, microsecondsPerBeat, bpm: 60e6 / microsecondsPerBeat }],
+    duration: fileNotes.reduce((end, note) => Math.max(end, note.time + note.duration), 0),
+  };
+}
+
+/** Variable-length quantity bytes for `value`. */
+function variableBytes(value: number) {
+  const bytes = [value & 0x7f];
+  for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function chunkBytes(type: string, body: number[]) {
+  const { length } = body;
+  const size = [(length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff];
+  return [...Array.from(type, (char) => char.charCodeAt(0)), ...size].concat(body);
+}
+
+type WriteEvent = { tick: number; order: number; bytes: number[] };
+
+/**
+ * Encodes a `MidiFile` as a Standard MIDI File: format 0 for one track,
+ * format 1 otherwise, with the tempo map in the first track. Files with SMPTE
+ * timing are written at 120 bpm from the note times. Throws on notes outside 0-127.
+ */
+export function writeMidiFile(file: MidiFile): Uint8Array {
+  const retime = file.ticksPerBeat == null;
+  const ticksPerBeat = file.ticksPerBeat ?? DEFAULT_TICKS_PER_BEAT;
+  const secondsPerTick = DEFAULT_MICROSECONDS_PER_BEAT / 1e6 / ticksPerBeat;
+  const trackCount = file.notes.reduce(
+    (count, note) => Math.max(count, note.track + 1),
+    Math.max(1, file.tracks.length),
+  );
+  const tracks: WriteEvent[][] = Array.from({ length: trackCount }, () => []);
+
+  for (const track of file.tracks) {
+    if (track.name) {
+      const name = Array.from(track.name, (char) => char.charCodeAt(0) & 0xff);
+      const bytes = [META_EVENT, META_TRACK_NAME, ...variableBytes(name.length), ...name];
+      tracks[track.index]?.push({ tick: 0, order: 0, bytes });
+    }
+  }
+  if (!retime) {
+    for (const { tick, microsecondsPerBeat: value } of file.tempos) {
+      const bytes = [META_EVENT, META_TEMPO, 3, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+      tracks[0].push({ tick, order: 1, bytes });
+    }
+  }
+  for (const note of file.notes) {
+    if (!Number.isInteger(note.midi) || note.midi < 0 || note.midi > 127) {
+      throw new Error(`curved-piano-keys: cannot write note ${note.midi}; MIDI files hold notes 0-127.`);
+    }
+    const start = retime ? Math.round(note.time / secondsPerTick) : note.startTick;
+    const end = retime ? Math.round((note.time + note.duration) / secondsPerTick) : note.endTick;
+    const status = Math.min(15, Math.max(0, note.channel - 1));
+    const velocity = Math.min(127, Math.max(1, Math.round(note.velocity * 127)));
+    // Note-offs sort before note-ons on the same tick so repeated notes
+    // retrigger; zero-length notes keep one tick so theirs cannot come first.
+    tracks[note.track].push({ tick: start, order: 3, bytes: [0x90 | status, note.midi, velocity] });
+    tracks[note.track].push({ tick: Math.max(start + 1, end), order: 2, bytes: [0x80 | status, note.midi, 0] });
+  }
+
+  const format = trackCount > 1 ? 1 : 0;
+  const header = [0, format, trackCount >> 8, trackCount & 0xff, ticksPerBeat >> 8, ticksPerBeat & 0xff];
+  const chunks = [chunkBytes('MThd', header)];
+  for (const events of tracks) {
+    events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+    const body: number[] = [];
+    let tick = 0;
+    for (const event of events) {
+      for (const byte of [...variableBytes(event.tick - tick), ...event.bytes]) {
+        body.push(byte);
+      }
+      tick = event.tick;
+    }
+    body.push(0, META_EVENT, META_END_OF_TRACK, 0);
+    chunks.push(chunkBytes('MTrk', body));
+  }
+
+  const out = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
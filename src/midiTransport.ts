@@ -0,0 +1,305 @@
+import type { ActiveNoteStyle } from './activeNotes';
+import type { MidiFile, MidiFileNote } from './midiFile';
+
+/** Time source for the transport. Inject one to drive playback from tests or an audio clock. */
+export type TransportClock = {
+  /** Current time in seconds. Only differences are used. */
+  now: () => number;
+  /** Calls `callback` once on the next tick and returns a function that cancels it. */
+  requestTick: (callback: () => void) => () => void;
+};
+
+export type MidiTransportOptions = {
+  /** Defaults to `performance.now()` with `requestAnimationFrame` ticks. */
+  clock?: TransportClock;
+  /** Playback speed; `2` plays twice as fast. Defaults to `1`. */
+  tempoScale?: number;
+  /** Start again from the beginning after the last note. */
+  loop?: boolean;
+  /** Track indices that start muted. */
+  mutedTracks?: number[];
+  /** Channels (1-16) that start muted. */
+  mutedChannels?: number[];
+  /** Highlight for each sounding note. Defaults to its velocity. */
+  noteStyle?: (note: MidiFileNote) => ActiveNoteStyle;
+  onNoteOn?: (note: MidiFileNote) => void;
+  onNoteOff?: (note: MidiFileNote) => void;
+  /** Called after position, play state or the sounding notes change. */
+  onChange?: () => void;
+  /** Called when playback reaches the end without `loop`. */
+  onEnd?: () => void;
+};
+
+export type MidiTransport = {
+  play: () => void;
+  pause: () => void;
+  /** Pauses and returns to the start. */
+  stop: () => void;
+  /** Jumps to `seconds` of file time; notes held across that point sound again. */
+  seek: (seconds: number) => void;
+  setTempoScale: (scale: number) => void;
+  setTrackMuted: (track: number, muted: boolean) => void;
+  setChannelMuted: (channel: number, muted: boolean) => void;
+  setLoop: (loop: boolean) => void;
+  /** Advances to the clock's current time. Called on every tick while playing. */
+  update: () => void;
+  readonly playing: boolean;
+  /** Seconds of file time, unaffected by `tempoScale`. */
+  readonly position: number;
+  readonly duration: number;
+  readonly tempoScale: number;
+  readonly mutedTracks: ReadonlySet<number>;
+  readonly mutedChannels: ReadonlySet<number>;
+  /** Sounding notes keyed by MIDI number; pass straight to `activeNotes`. */
+  readonly activeNotes: Map<number, ActiveNoteStyle>;
+  /** Stops playback, releases every note and ignores further calls. */
+  dispose: () => void;
+};
+
+/** Wall-clock time with `requestAnimationFrame` ticks, or a timer where there are no frames. */
+export function createAnimationFrameClock(): TransportClock {
+  return {
+    now: () => (typeof performance !== 'undefined' ? performance.now() : Date.now()) / 1000,
+    requestTick: (callback) => {
+      if (typeof requestAnimationFrame === 'function') {
+        const frame = requestAnimationFrame(callback);
+        return () => cancelAnimationFrame(frame);
+      }
+      const timer = setTimeout(callback, 16);
+      return () => clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Plays a parsed MIDI file against a clock, turning it into note-on/off
+ * callbacks and an `activeNotes` map for `CurvedPianoKeys`.
+ */
+export function createMidiTransport(file: MidiFile, options: MidiTransportOptions = {}): MidiTransport {
+  const clock = options.clock ?? createAnimationFrameClock();
+  const { notes, duration } = file;
+  const mutedTracks = new Set(options.mutedTracks);
+  const mutedChannels = new Set(options.mutedChannels);
+  let tempoScale = options.tempoScale && options.tempoScale > 0 ? options.tempoScale : 1;
+  let loop = options.loop ?? false;
+
+  let playing = false;
+  let disposed = false;
+  let position = 0;
+  // Clock time and file position at the last play, seek or tempo change.
+  let anchorTime = 0;
+  let anchorPosition = 0;
+  // First note that has not started yet.
+  let nextIndex = 0;
+  let cancelTick: (() => void) | null = null;
+  const sounding = new Set<MidiFileNote>();
+  let soundingChanged = false;
+  let activeNotes = new Map<number, ActiveNoteStyle>();
+
+  const isMuted = (note: MidiFileNote) => mutedTracks.has(note.track) || mutedChannels.has(note.channel);
+  const isHeldAt = (note: MidiFileNote, seconds: number) =>
+    note.time <= seconds && note.time + note.duration > seconds && !isMuted(note);
+
+  // While paused the keyboard shows the notes held at the playhead, without callbacks.
+  const publish = () => {
+    activeNotes = new Map();
+    const shown = playing ? Array.from(sounding) : notes.filter((note) => isHeldAt(note, position));
+    shown.forEach((note) => {
+      activeNotes.set(note.midi, options.noteStyle?.(note) ?? { velocity: note.velocity });
+    });
+  };
+
+  const start = (note: MidiFileNote) => {
+    sounding.add(note);
+    soundingChanged = true;
+    options.onNoteOn?.(note);
+  };
+
+  const end = (note: MidiFileNote) => {
+    sounding.delete(note);
+    soundingChanged = true;
+    options.onNoteOff?.(note);
+  };
+
+  const releaseWhere = (predicate: (note: MidiFileNote) => boolean) => {
+    Array.from(sounding).filter(predicate).forEach(end);
+  };
+
+  const firstNoteAfter = (seconds: number) => {
+    let low = 0;
+    let high = notes.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (notes[middle].time <= seconds) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+
+  // A new map only when the notes change, so the keyboard is not redrawn every frame.
+  const emit = () => {
+    if (soundingChanged || !playing) {
+      soundingChanged = false;
+      publish();
+    }
+    options.onChange?.();
+  };
+
+  // Events go out in time order with note-offs before note-ons at the same
+  // instant, as in `notesToEvents`, so a repeated pitch is not cut off.
+  const advance = (to: number) => {
+    while (nextIndex < notes.length && notes[nextIndex].time <= to) {
+      const note = notes[nextIndex];
+      nextIndex += 1;
+      releaseWhere((held) => held.time + held.duration <= note.time);
+      if (!isMuted(note)) {
+        start(note);
+      }
+    }
+    releaseWhere((note) => note.time + note.duration <= to);
+    position = to;
+  };
+
+  const seekTo = (seconds: number) => {
+    releaseWhere(() => true);
+    position = Math.max(0, Math.min(duration, seconds));
+    anchorTime = clock.now();
+    anchorPosition = position;
+    nextIndex = firstNoteAfter(position);
+    if (playing) {
+      // Chase notes that started earlier but are still held at the new position.
+      notes.slice(0, nextIndex).filter((note) => isHeldAt(note, position)).forEach(start);
+    }
+  };
+
+  const stopTicking = () => {
+    cancelTick?.();
+    cancelTick = null;
+  };
+
+  const scheduleTick = () => {
+    stopTicking();
+    cancelTick = clock.requestTick(() => {
+      cancelTick = null;
+      update();
+      if (playing) {
+        scheduleTick();
+      }
+    });
+  };
+
+  function update() {
+    if (!playing) {
+      return;
+    }
+    const target = anchorPosition + (clock.now() - anchorTime) * tempoScale;
+    advance(Math.min(target, duration));
+    if (target >= duration) {
+      if (loop && duration > 0) {
+        // Carry the time past the end into the next pass, so a loop keeps in step with the clock.
+        const overshoot = (target - duration) % duration;
+        seekTo(0);
+        advance(overshoot);
+        anchorPosition = overshoot;
+      } else {
+        playing = false;
+        stopTicking();
+        releaseWhere(() => true);
+        emit();
+        options.onEnd?.();
+        return;
+      }
+    }
+    emit();
+  }
+
+  const pause = () => {
+    if (!playing) {
+      return;
+    }
+    update();
+    playing = false;
+    stopTicking();
+    releaseWhere(() => true);
+    emit();
+  };
+
+  const setMuted = (muted: Set<number>, value: number, on: boolean, matches: (note: MidiFileNote) => boolean) => {
+    if (on) {
+      muted.add(value);
+      releaseWhere(matches);
+    } else {
+      muted.delete(value);
+    }
+    emit();
+  };
+
+  publish();
+
+  return {
+    play: () => {
+      if (playing || disposed) {
+        return;
+      }
+      playing = true;
+      seekTo(position >= duration ? 0 : position);
+      emit();
+      scheduleTick();
+    },
+    pause,
+    stop: () => {
+      pause();
+      seekTo(0);
+      emit();
+    },
+    seek: (seconds) => {
+      if (disposed) {
+        return;
+      }
+      seekTo(seconds);
+      emit();
+    },
+    setTempoScale: (scale) => {
+      if (!(scale > 0)) {
+        console.warn(`curved-piano-keys: tempoScale must be positive, got ${scale}.`);
+        return;
+      }
+      update();
+      anchorTime = clock.now();
+      anchorPosition = position;
+      tempoScale = scale;
+      options.onChange?.();
+    },
+    setTrackMuted: (track, muted) => setMuted(mutedTracks, track, muted, (note) => note.track === track),
+    setChannelMuted: (channel, muted) => setMuted(mutedChannels, channel, muted, (note) => note.channel === channel),
+    setLoop: (next) => {
+      loop = next;
+    },
+    update,
+    get playing() {
+      return playing;
+    },
+    get position() {
+      return position;
+    },
+    duration,
+    get tempoScale() {
+      return tempoScale;
+    },
+    mutedTracks,
+    mutedChannels,
+    get activeNotes() {
+      return activeNotes;
+    },
+    dispose: () => {
+      playing = false;
+      disposed = true;
+      stopTicking();
+      releaseWhere(() => true);
+      activeNotes = new Map();
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { TimedNote } from './midiFile';
+
+/** A recorded note; times are seconds from the start of the recording. */
+export type RecordedNote = TimedNote & { velocity: number };
+
+export type RecordedEvent = {
+  type: 'noteon' | 'noteoff';
+  midi: number;
+  /** 0-1; the note-on velocity is repeated on its note-off. */
+  velocity: number;
+  /** Seconds from the start of the recording. */
+  time: number;
+  channel: number;
+};
+
+export type QuantizeOptions = {
+  /** Grid size in seconds, e.g. `60 / bpm / 4` for sixteenth notes. */
+  grid: number;
+  /** How far (0-1) each note moves toward the grid. Defaults to `1`. */
+  strength?: number;
+  /** Also snap note ends, keeping at least one grid step. Defaults to `true`. */
+  durations?: boolean;
+};
+
+/** Moves note starts (and ends) toward the nearest grid line. */
+export function quantizeNotes(notes: ReadonlyArray<RecordedNote>, options: QuantizeOptions): RecordedNote[] {
+  const { grid, strength = 1, durations = true } = options;
+  if (!(grid > 0)) {
+    console.warn(`curved-piano-keys: quantize grid must be positive, got ${grid}.`);
+    return [...notes];
+  }
+  const amount = Math.min(1, Math.max(0, strength));
+  const snap = (seconds: number) => seconds + (Math.round(seconds / grid) * grid - seconds) * amount;
+  return notes
+    .map((note) => {
+      const time = Math.max(0, snap(note.time));
+      const end = durations ? Math.max(time + grid * amount, snap(note.time + note.duration)) : time + note.duration;
+      return { ...note, time, duration: end - time };
+    })
+    .sort((a, b) => a.time - b.time || a.midi - b.midi);
+}
+
+/** Flattens notes into time-ordered note-on/off events, e.g. for a JSON export. */
+export function notesToEvents(notes: ReadonlyArray<RecordedNote>): RecordedEvent[] {
+  const events: RecordedEvent[] = [];
+  for (const note of notes) {
+    const channel = note.channel ?? 1;
+    events.push({ type: 'noteon', midi: note.midi, velocity: note.velocity, time: note.time, channel });
+    events.push({ type: 'noteoff', midi: note.midi, velocity: note.velocity, time: note.time + note.duration, channel });
+  }
+  // On the same instant note-offs come first, so a repeated note retriggers.
+  return events.sort((a, b) => a.time - b.time || (a.type === b.type ? 0 : a.type === 'noteoff' ? -1 : 1));
+}
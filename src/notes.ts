@@ -0,0 +1,100 @@
+export type KeyColor = 'white' | 'black';
+
+/** Pitch-class names using sharps, indexed by `midi % 12`. */
+export const SHARP_NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
+
+export type PitchClassName = (typeof SHARP_NOTE_NAMES)[number];
+
+/** A note as a MIDI number (`60`) or scientific pitch name (`"C4"`, `"F#2"`, `"Bb3"`). */
+export type NoteInput = number | string;
+
+export type NoteInfo = {
+  midi: number;
+  /** Scientific pitch name, e.g. `"C#4"` (middle C is `"C4"`, MIDI 60). */
+  name: string;
+  pitchClass: PitchClassName;
+  octave: number;
+  color: KeyColor;
+};
+
+const LETTER_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const NOTE_NAME_PATTERN = /^([A-Ga-g])([#♯b♭]*)(-?\d+)$/;
+
+const BLACK_PITCH_CLASSES = new Set([1, 3, 6, 8, 10]);
+
+function pitchClassOf(midi: number) {
+  return ((midi % 12) + 12) % 12;
+}
+
+export function isBlackKey(midi: number) {
+  return BLACK_PITCH_CLASSES.has(pitchClassOf(midi));
+}
+
+export function midiToNoteInfo(midi: number): NoteInfo {
+  const pitchClass = SHARP_NOTE_NAMES[pitchClassOf(midi)];
+  const octave = Math.floor(midi / 12) - 1;
+  return {
+    midi,
+    name: `${pitchClass}${octave}`,
+    pitchClass,
+    octave,
+    color: isBlackKey(midi) ? 'black' : 'white',
+  };
+}
+
+/** Resolves a note name or MIDI number to a MIDI number, or `null` when it cannot be parsed. */
+export function noteToMidi(note: NoteInput): number | null {
+  if (typeof note === 'number') {
+    return Number.isInteger(note) ? note : null;
+  }
+  const match = NOTE_NAME_PATTERN.exec(note.trim());
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidentals, octave] = match;
+  let offset = 0;
+  for (const accidental of accidentals) {
+    offset += accidental === '#' || accidental === '♯' ? 1 : -1;
+  }
+  return (Number(octave) + 1) * 12 + LETTER_PITCH_CLASSES[letter.toUpperCase()] + offset;
+}
+
+/** Spoken form of a note for assistive technology, e.g. `"C sharp 4"`. */
+export function noteAriaLabel(midi: number) {
+  const { pitchClass, octave } = midiToNoteInfo(midi);
+  return pitchClass.length > 1 ? `${pitchClass[0]} sharp ${octave}` : `${pitchClass} ${octave}`;
+}
+
+export type NoteNamingStyle = 'letter' | 'solfege' | 'german';
+
+export type NoteNameOptions = {
+  /** `'letter'` (`C♯4`, default), fixed-do `'solfege'` (`Do♯4`) or `'german'` (`Cis4`, `H4`, `B4` for B♭). */
+  naming?: NoteNamingStyle;
+  /** Spell black keys as sharps (default) or flats. */
+  accidentals?: 'sharp' | 'flat';
+  /** Append the octave number. Defaults to `true`. */
+  octave?: boolean;
+};
+
+const SOLFEGE_SYLLABLES: Record<string, string> = { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' };
+
+const FLAT_LETTERS = ['C', 'D', 'D', 'E', 'E', 'F', 'G', 'G', 'A', 'A', 'B', 'B'];
+
+/** German pitch-class names; B natural is `H` and B♭ is `B`. */
+const GERMAN_SHARP_NAMES = ['C', 'Cis', 'D', 'Dis', 'E', 'F', 'Fis', 'G', 'Gis', 'A', 'Ais', 'H'];
+const GERMAN_FLAT_NAMES = ['C', 'Des', 'D', 'Es', 'E', 'F', 'Ges', 'G', 'As', 'A', 'B', 'H'];
+
+/** Display name of a note in the given naming style, e.g. `"E♭4"`, `"Mi♭"` or `"Es4"`. */
+export function formatNoteName(midi: number, options: NoteNameOptions = {}) {
+  const { naming = 'letter', accidentals = 'sharp', octave = true } = options;
+  const pitchClass = pitchClassOf(midi);
+  const suffix = octave ? String(Math.floor(midi / 12) - 1) : '';
+  if (naming === 'german') {
+    return (accidentals === 'flat' ? GERMAN_FLAT_NAMES : GERMAN_SHARP_NAMES)[pitchClass] + suffix;
+  }
+  const black = BLACK_PITCH_CLASSES.has(pitchClass);
+  const letter = black && accidentals === 'flat' ? FLAT_LETTERS[pitchClass] : SHARP_NOTE_NAMES[pitchClass][0];
+  const accidental = black ? (accidentals === 'flat' ? '♭' : '♯') : '';
+  return (naming === 'solfege' ? SOLFEGE_SYLLABLES[letter] : letter) + accidental + suffix;
+}
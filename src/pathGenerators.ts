@@ -0,0 +1,270 @@
+import type { Point } from './pathGeometry';
+
+/** Area a generated path is placed in, in SVG user units. */
+export type PathBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type PathGeneratorOptions = {
+  /** Defaults to `DEFAULT_PATH_BOX`, the area the built-in presets occupy. */
+  box?: PathBox;
+  /**
+   * `'contain'` (default) scales the curve uniformly to fit the box and
+   * centres it; `'none'` keeps the generator's own units with the curve's
+   * top-left corner at the box's.
+   */
+  fit?: 'contain' | 'none';
+  /** Cubic segments used to approximate the curve. Defaults to a count based on its shape. */
+  segments?: number;
+};
+
+export type ArcPathOptions = PathGeneratorOptions & {
+  /** Defaults to `500`. Only matters with `fit: 'none'`. */
+  radius?: number;
+  /** Degrees of arc, bulging upward. Defaults to `120`. */
+  sweep?: number;
+};
+
+export type SinePathOptions = PathGeneratorOptions & {
+  /** Peak height above the centre line. Defaults to `120`. */
+  amplitude?: number;
+  /** Defaults to `500`. */
+  wavelength?: number;
+  /** Degrees; `90` starts on a peak. Defaults to `0`. */
+  phase?: number;
+  /** Horizontal length of the wave. Defaults to two wavelengths. */
+  length?: number;
+};
+
+export type SpiralPathOptions = PathGeneratorOptions & {
+  /** Full turns from the inside out. Defaults to `1.5`. */
+  turns?: number;
+  /** Outer radius. Defaults to `300`. */
+  radius?: number;
+  /** Radius the spiral starts from. Defaults to a quarter of `radius`. */
+  innerRadius?: number;
+  /** Wind clockwise on screen. Defaults to `true`. */
+  clockwise?: boolean;
+};
+
+export type CirclePathOptions = PathGeneratorOptions & {
+  /** Defaults to `300`. */
+  radius?: number;
+  /** Degrees where the path starts, measured clockwise from 3 o'clock. Defaults to `90` (the bottom). */
+  startAngle?: number;
+  /** Defaults to `true`. */
+  clockwise?: boolean;
+};
+
+export type SCurvePathOptions = PathGeneratorOptions & {
+  /** Radius of each of the two arcs. Defaults to `300`. */
+  radius?: number;
+  /** Degrees turned by each arc. Defaults to `90`. */
+  sweep?: number;
+};
+
+/** A curve given by position and derivative over `t` in `[0, 1]`. */
+export type ParametricCurve = {
+  point: (t: number) => Point;
+  derivative: (t: number) => Point;
+};
+
+export const DEFAULT_PATH_BOX: PathBox = { x: 40, y: 40, width: 1000, height: 400 };
+
+const BOUNDS_SAMPLES = 256;
+const DEGREES = Math.PI / 180;
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+/**
+ * Turns any parametric curve into path data for `d` or `registerPathPreset()`.
+ * The curve is split into cubic Béziers whose control points follow its
+ * derivative, so the result is smooth and matches the curve closely.
+ */
+export function parametricPath(curve: ParametricCurve, options: PathGeneratorOptions & { closed?: boolean } = {}): string {
+  const { box = DEFAULT_PATH_BOX, fit = 'contain', closed = false } = options;
+  const segments = Math.max(1, Math.round(options.segments ?? 16));
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i <= BOUNDS_SAMPLES; i += 1) {
+    const { x, y } = curve.point(i / BOUNDS_SAMPLES);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const width = maxX - minX;
+  const height = maxY - minY;
+
+  let scale = 1;
+  let offsetX = box.x - minX;
+  let offsetY = box.y - minY;
+  if (fit === 'contain') {
+    const scaleX = width > 0 ? box.width / width : Infinity;
+    const scaleY = height > 0 ? box.height / height : Infinity;
+    scale = Math.min(scaleX, scaleY);
+    if (!Number.isFinite(scale)) {
+      scale = 1;
+    }
+    offsetX = box.x + (box.width - width * scale) / 2 - minX * scale;
+    offsetY = box.y + (box.height - height * scale) / 2 - minY * scale;
+  }
+
+  const place = (p: Point) => `${formatNumber(p.x * scale + offsetX)} ${formatNumber(p.y * scale + offsetY)}`;
+  const dt = 1 / segments;
+  const parts = [`M ${place(curve.point(0))}`];
+  for (let i = 0; i < segments; i += 1) {
+    const t0 = i * dt;
+    const t1 = (i + 1) * dt;
+    const p0 = curve.point(t0);
+    const p1 = curve.point(t1);
+    const d0 = curve.derivative(t0);
+    const d1 = curve.derivative(t1);
+    const c0 = { x: p0.x + (d0.x * dt) / 3, y: p0.y + (d0.y * dt) / 3 };
+    const c1 = { x: p1.x - (d1.x * dt) / 3, y: p1.y - (d1.y * dt) / 3 };
+    parts.push(`C ${place(c0)} ${place(c1)} ${place(p1)}`);
+  }
+  if (closed) {
+    parts.push('Z');
+  }
+  return parts.join(' ');
+}
+
+// Eighth-turn segments keep the cubic approximation of circular arcs well under a unit off.
+const segmentsForTurn = (radians: number) => Math.max(1, Math.ceil(Math.abs(radians) / (Math.PI / 8)));
+
+/** Circular arc bulging upward, symmetric about its top. */
+export function arcPath(options: ArcPathOptions = {}): string {
+  const { radius = 500, sweep = 120 } = options;
+  const span = Math.min(360, Math.max(1, sweep)) * DEGREES;
+  // Screen angles grow clockwise, so the top of the circle is at -90°.
+  const start = -Math.PI / 2 - span / 2;
+  return parametricPath(
+    {
+      point: (t) => ({ x: radius * Math.cos(start + span * t), y: radius * Math.sin(start + span * t) }),
+      derivative: (t) => ({
+        x: -radius * span * Math.sin(start + span * t),
+        y: radius * span * Math.cos(start + span * t),
+      }),
+    },
+    { segments: segmentsForTurn(span), ...options },
+  );
+}
+
+/** Sine wave running left to right. */
+export function sinePath(options: SinePathOptions = {}): string {
+  const { amplitude = 120, wavelength = 500, phase = 0 } = options;
+  const length = options.length ?? wavelength * 2;
+  const k = (2 * Math.PI) / wavelength;
+  const shift = phase * DEGREES;
+  return parametricPath(
+    {
+      // Negated so positive amplitude rises on screen.
+      point: (t) => ({ x: length * t, y: -amplitude * Math.sin(k * length * t + shift) }),
+      derivative: (t) => ({ x: length, y: -amplitude * k * length * Math.cos(k * length * t + shift) }),
+    },
+    { segments: Math.max(2, Math.ceil((length / wavelength) * 8)), ...options },
+  );
+}
+
+function spiralPath(options: SpiralPathOptions, radiusAt: (t: number) => number, radiusSlope: (t: number) => number) {
+  const { turns = 1.5, clockwise = true } = options;
+  const span = Math.max(0.1, turns) * 2 * Math.PI * (clockwise ? 1 : -1);
+  return parametricPath(
+    {
+      point: (t) => ({ x: radiusAt(t) * Math.cos(span * t), y: radiusAt(t) * Math.sin(span * t) }),
+      derivative: (t) => {
+        const r = radiusAt(t);
+        const dr = radiusSlope(t);
+        const angle = span * t;
+        return {
+          x: dr * Math.cos(angle) - r * span * Math.sin(angle),
+          y: dr * Math.sin(angle) + r * span * Math.cos(angle),
+        };
+      },
+    },
+    { segments: segmentsForTurn(span), ...options },
+  );
+}
+
+/** Archimedean spiral: evenly spaced turns, winding outward from `innerRadius`. */
+export function archimedeanSpiralPath(options: SpiralPathOptions = {}): string {
+  const { radius = 300 } = options;
+  const inner = options.innerRadius ?? radius / 4;
+  return spiralPath(
+    options,
+    (t) => inner + (radius - inner) * t,
+    () => radius - inner,
+  );
+}
+
+/** Logarithmic spiral: turns widen in proportion to their radius. */
+export function logSpiralPath(options: SpiralPathOptions = {}): string {
+  const { radius = 300 } = options;
+  const inner = Math.max(1e-3, options.innerRadius ?? radius / 4);
+  const growth = Math.log(radius / inner);
+  return spiralPath(
+    options,
+    (t) => inner * Math.exp(growth * t),
+    (t) => inner * growth * Math.exp(growth * t),
+  );
+}
+
+/** Full circle, closed with `Z`. */
+export function circlePath(options: CirclePathOptions = {}): string {
+  const { radius = 300, startAngle = 90, clockwise = true } = options;
+  const start = startAngle * DEGREES;
+  const span = 2 * Math.PI * (clockwise ? 1 : -1);
+  return parametricPath(
+    {
+      point: (t) => ({ x: radius * Math.cos(start + span * t), y: radius * Math.sin(start + span * t) }),
+      derivative: (t) => ({
+        x: -radius * span * Math.sin(start + span * t),
+        y: radius * span * Math.cos(start + span * t),
+      }),
+    },
+    { segments: segmentsForTurn(span), ...options, closed: true },
+  );
+}
+
+/** Two arcs of equal radius turning opposite ways, joined without a kink. */
+export function sCurvePath(options: SCurvePathOptions = {}): string {
+  const { radius = 300, sweep = 90 } = options;
+  const span = Math.min(180, Math.max(1, sweep)) * DEGREES;
+  // Starts heading right and up at half the sweep, turns right through the
+  // first arc, then left through the second, ending on the same heading.
+  const heading0 = -span / 2;
+  const first = (t: number) => heading0 + span * t;
+  const join = {
+    x: radius * (Math.sin(heading0 + span) - Math.sin(heading0)),
+    y: -radius * (Math.cos(heading0 + span) - Math.cos(heading0)),
+  };
+  const second = (t: number) => heading0 + span - span * t;
+  const point = (t: number): Point => {
+    if (t <= 0.5) {
+      const heading = first(t * 2);
+      return { x: radius * (Math.sin(heading) - Math.sin(heading0)), y: -radius * (Math.cos(heading) - Math.cos(heading0)) };
+    }
+    const heading = second(t * 2 - 1);
+    return {
+      x: join.x - radius * (Math.sin(heading) - Math.sin(heading0 + span)),
+      y: join.y + radius * (Math.cos(heading) - Math.cos(heading0 + span)),
+    };
+  };
+  const derivative = (t: number): Point => {
+    // Heading direction at t, scaled by the speed along the curve (2·radius·span per unit t).
+    const heading = t <= 0.5 ? first(t * 2) : second(t * 2 - 1);
+    const speed = 2 * radius * span;
+    return { x: speed * Math.cos(heading), y: speed * Math.sin(heading) };
+  };
+  return parametricPath({ point, derivative }, { segments: segmentsForTurn(span), ...options });
+}
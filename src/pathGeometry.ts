@@ -0,0 +1,657 @@
+export type Point = { x: number; y: number };
+
+/** Absolute, normalised path command. H/V become L, S becomes C and T becomes Q. */
+export type PathCommand =
+  | { type: 'M'; x: number; y: number }
+  | { type: 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | {
+      type: 'A';
+      rx: number;
+      ry: number;
+      rotation: number;
+      largeArc: boolean;
+      sweep: boolean;
+      x: number;
+      y: number;
+    }
+  | { type: 'Z' };
+
+/** Position, unit tangent and unit normal at a distance along the path. */
+export type PathSample = { p: Point; t: Point; n: Point };
+
+export type PathSegment = {
+  kind: 'line' | 'cubic' | 'quadratic' | 'arc';
+  /** Index of the subpath (one per `M`) this segment belongs to. */
+  subpath: number;
+  start: Point;
+  end: Point;
+  /** Distance along the whole path where this segment begins. */
+  offset: number;
+  length: number;
+  point: (t: number) => Point;
+  derivative: (t: number) => Point;
+};
+
+export type PathGeometry = {
+  totalLength: number;
+  /**
+   * The path is a single loop: closed with `Z` or ending where it starts.
+   * Offsets then wrap around, so `-10` and `totalLength - 10` are the same point.
+   */
+  closed: boolean;
+  segments: PathSegment[];
+  /**
+   * Each subpath that draws something, as its own geometry measured from its
+   * own start. A path with a single subpath lists itself.
+   */
+  subpaths: PathSubpath[];
+  pointAt: (s: number) => Point;
+  tangentAt: (s: number) => Point;
+  sampleAt: (s: number) => PathSample;
+};
+
+export type PathSubpath = {
+  /** Distance along the whole path where the subpath begins. */
+  offset: number;
+  geometry: PathGeometry;
+};
+
+const ARG_COUNTS: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const SEPARATOR_PATTERN = /[\s,]*/y;
+
+/**
+ * Parses SVG path data into absolute commands. Like browsers, parsing stops at
+ * the first malformed command and everything before it is kept.
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let index = 0;
+
+  const skipSeparators = () => {
+    SEPARATOR_PATTERN.lastIndex = index;
+    SEPARATOR_PATTERN.exec(d);
+    index = SEPARATOR_PATTERN.lastIndex;
+  };
+
+  const readNumber = (): number | null => {
+    skipSeparators();
+    NUMBER_PATTERN.lastIndex = index;
+    const match = NUMBER_PATTERN.exec(d);
+    if (!match) {
+      return null;
+    }
+    index = NUMBER_PATTERN.lastIndex;
+    return Number(match[0]);
+  };
+
+  const readFlag = (): boolean | null => {
+    skipSeparators();
+    const char = d[index];
+    if (char !== '0' && char !== '1') {
+      return null;
+    }
+    index += 1;
+    return char === '1';
+  };
+
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let lastControl: Point | null = null;
+  let lastKind: 'C' | 'Q' | null = null;
+  let command: string | null = null;
+
+  while (true) {
+    skipSeparators();
+    if (index >= d.length) {
+      break;
+    }
+
+    const char = d[index];
+    if (/[a-zA-Z]/.test(char)) {
+      if (!(char.toLowerCase() in ARG_COUNTS)) {
+        break;
+      }
+      command = char;
+      index += 1;
+    } else if (command == null || command === 'z' || command === 'Z') {
+      break;
+    }
+
+    const lower: string = command.toLowerCase();
+    const relative: boolean = command !== command.toUpperCase();
+    const args: number[] = [];
+
+    if (lower === 'a') {
+      const rx = readNumber();
+      const ry = readNumber();
+      const rotation = readNumber();
+      const largeArc = readFlag();
+      const sweep = readFlag();
+      const endX = readNumber();
+      const endY = readNumber();
+      if (rx == null || ry == null || rotation == null || largeArc == null || sweep == null || endX == null || endY == null) {
+        break;
+      }
+      const nextX = relative ? x + endX : endX;
+      const nextY = relative ? y + endY : endY;
+      commands.push({ type: 'A', rx: Math.abs(rx), ry: Math.abs(ry), rotation, largeArc, sweep, x: nextX, y: nextY });
+      x = nextX;
+      y = nextY;
+      lastKind = null;
+      continue;
+    }
+
+    let malformed = false;
+    for (let arg = 0; arg < ARG_COUNTS[lower]; arg += 1) {
+      const value = readNumber();
+      if (value == null) {
+        malformed = true;
+        break;
+      }
+      args.push(value);
+    }
+    if (malformed) {
+      break;
+    }
+
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+
+    switch (lower) {
+      case 'm':
+        x = ox + args[0];
+        y = oy + args[1];
+        startX = x;
+        startY = y;
+        commands.push({ type: 'M', x, y });
+        // Extra coordinate pairs after a moveto are implicit linetos.
+        command = relative ? 'l' : 'L';
+        lastKind = null;
+        break;
+      case 'l':
+        x = ox + args[0];
+        y = oy + args[1];
+        commands.push({ type: 'L', x, y });
+        lastKind = null;
+        break;
+      case 'h':
+        x = ox + args[0];
+        commands.push({ type: 'L', x, y });
+        lastKind = null;
+        break;
+      case 'v':
+        y = oy + args[0];
+        commands.push({ type: 'L', x, y });
+        lastKind = null;
+        break;
+      case 'c':
+      case 's': {
+        let x1: number;
+        let y1: number;
+        let rest = args;
+        if (lower === 'c') {
+          x1 = ox + args[0];
+          y1 = oy + args[1];
+          rest = args.slice(2);
+        } else if (lastKind === 'C' && lastControl) {
+          x1 = 2 * x - lastControl.x;
+          y1 = 2 * y - lastControl.y;
+        } else {
+          x1 = x;
+          y1 = y;
+        }
+        const x2 = ox + rest[0];
+        const y2 = oy + rest[1];
+        x = ox + rest[2];
+        y = oy + rest[3];
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+        lastControl = { x: x2, y: y2 };
+        lastKind = 'C';
+        break;
+      }
+      case 'q':
+      case 't': {
+        let x1: number;
+        let y1: number;
+        let rest = args;
+        if (lower === 'q') {
+          x1 = ox + args[0];
+          y1 = oy + args[1];
+          rest = args.slice(2);
+        } else if (lastKind === 'Q' && lastControl) {
+          x1 = 2 * x - lastControl.x;
+          y1 = 2 * y - lastControl.y;
+        } else {
+          x1 = x;
+          y1 = y;
+        }
+        x = ox + rest[0];
+        y = oy + rest[1];
+        commands.push({ type: 'Q', x1, y1, x, y });
+        lastControl = { x: x1, y: y1 };
+        lastKind = 'Q';
+        break;
+      }
+      case 'z':
+        commands.push({ type: 'Z' });
+        x = startX;
+        y = startY;
+        lastKind = null;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return commands;
+}
+
+/** 5-point Gauss-Legendre nodes and weights on [-1, 1]. */
+const GAUSS_NODES = [0, -0.5384693101056831, 0.5384693101056831, -0.906179845938664, 0.906179845938664];
+const GAUSS_WEIGHTS = [0.5688888888888889, 0.4786286704993665, 0.4786286704993665, 0.2369268850561891, 0.2369268850561891];
+
+/** Parameter subdivisions used for the arc-length table of each curved segment. */
+const CURVE_TABLE_STEPS = 24;
+
+const EPSILON = 1e-9;
+
+/** Gap between the ends, relative to the length, below which a path counts as closed without `Z`. */
+const CLOSE_TOLERANCE = 1e-6;
+
+type CurveFns = {
+  kind: PathSegment['kind'];
+  point: (t: number) => Point;
+  derivative: (t: number) => Point;
+};
+
+type MeasuredSegment = PathSegment & {
+  /** Cumulative length at each of the table steps, starting with 0. */
+  table: number[];
+  paramAt: (local: number) => number;
+};
+
+function speedOf(curve: CurveFns, t: number) {
+  const derivative = curve.derivative(t);
+  return Math.hypot(derivative.x, derivative.y);
+}
+
+function integrateSpeed(curve: CurveFns, t0: number, t1: number) {
+  const half = (t1 - t0) / 2;
+  const mid = (t1 + t0) / 2;
+  let sum = 0;
+  for (let i = 0; i < GAUSS_NODES.length; i += 1) {
+    sum += GAUSS_WEIGHTS[i] * speedOf(curve, mid + half * GAUSS_NODES[i]);
+  }
+  return sum * half;
+}
+
+function lineCurve(start: Point, end: Point): CurveFns {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  return {
+    kind: 'line',
+    point: (t) => ({ x: start.x + dx * t, y: start.y + dy * t }),
+    derivative: () => ({ x: dx, y: dy }),
+  };
+}
+
+function cubicCurve(p0: Point, p1: Point, p2: Point, p3: Point): CurveFns {
+  return {
+    kind: 'cubic',
+    point: (t) => {
+      const mt = 1 - t;
+      const a = mt * mt * mt;
+      const b = 3 * mt * mt * t;
+      const c = 3 * mt * t * t;
+      const e = t * t * t;
+      return {
+        x: a * p0.x + b * p1.x + c * p2.x + e * p3.x,
+        y: a * p0.y + b * p1.y + c * p2.y + e * p3.y,
+      };
+    },
+    derivative: (t) => {
+      const mt = 1 - t;
+      const a = 3 * mt * mt;
+      const b = 6 * mt * t;
+      const c = 3 * t * t;
+      return {
+        x: a * (p1.x - p0.x) + b * (p2.x - p1.x) + c * (p3.x - p2.x),
+        y: a * (p1.y - p0.y) + b * (p2.y - p1.y) + c * (p3.y - p2.y),
+      };
+    },
+  };
+}
+
+function quadraticCurve(p0: Point, p1: Point, p2: Point): CurveFns {
+  return {
+    kind: 'quadratic',
+    point: (t) => {
+      const mt = 1 - t;
+      return {
+        x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+        y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y,
+      };
+    },
+    derivative: (t) => {
+      const mt = 1 - t;
+      return {
+        x: 2 * mt * (p1.x - p0.x) + 2 * t * (p2.x - p1.x),
+        y: 2 * mt * (p1.y - p0.y) + 2 * t * (p2.y - p1.y),
+      };
+    },
+  };
+}
+
+function angleBetween(ux: number, uy: number, vx: number, vy: number) {
+  return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+}
+
+/** Endpoint-to-centre arc conversion from the SVG implementation notes (F.6.5). */
+function arcCurve(start: Point, command: Extract<PathCommand, { type: 'A' }>): CurveFns | null {
+  const end = { x: command.x, y: command.y };
+  let rx = command.rx;
+  let ry = command.ry;
+  if (rx < EPSILON || ry < EPSILON) {
+    return lineCurve(start, end);
+  }
+
+  const phi = (command.rotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const hx = (start.x - end.x) / 2;
+  const hy = (start.y - end.y) / 2;
+  const x1 = cosPhi * hx + sinPhi * hy;
+  const y1 = -sinPhi * hx + cosPhi * hy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    const scale = Math.sqrt(lambda);
+    rx *= scale;
+    ry *= scale;
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const sign = command.largeArc !== command.sweep ? 1 : -1;
+  const coef = denominator > 0 ? sign * Math.sqrt(Math.max(0, numerator / denominator)) : 0;
+  const cx1 = (coef * rx * y1) / ry;
+  const cy1 = (-coef * ry * x1) / rx;
+  const cx = cosPhi * cx1 - sinPhi * cy1 + (start.x + end.x) / 2;
+  const cy = sinPhi * cx1 + cosPhi * cy1 + (start.y + end.y) / 2;
+
+  const ux = (x1 - cx1) / rx;
+  const uy = (y1 - cy1) / ry;
+  const vx = (-x1 - cx1) / rx;
+  const vy = (-y1 - cy1) / ry;
+  const theta1 = angleBetween(1, 0, ux, uy);
+  let sweepAngle = angleBetween(ux, uy, vx, vy);
+  if (!command.sweep && sweepAngle > 0) {
+    sweepAngle -= Math.PI * 2;
+  } else if (command.sweep && sweepAngle < 0) {
+    sweepAngle += Math.PI * 2;
+  }
+
+  return {
+    kind: 'arc',
+    point: (t) => {
+      const theta = theta1 + sweepAngle * t;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      return {
+        x: cx + rx * cosPhi * cos - ry * sinPhi * sin,
+        y: cy + rx * sinPhi * cos + ry * cosPhi * sin,
+      };
+    },
+    derivative: (t) => {
+      const theta = theta1 + sweepAngle * t;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      return {
+        x: sweepAngle * (-rx * cosPhi * sin - ry * sinPhi * cos),
+        y: sweepAngle * (-rx * sinPhi * sin + ry * cosPhi * cos),
+      };
+    },
+  };
+}
+
+function measureSegment(curve: CurveFns, start: Point, end: Point, subpath: number, offset: number): MeasuredSegment {
+  if (curve.kind === 'line') {
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    return {
+      ...curve,
+      subpath,
+      start,
+      end,
+      offset,
+      length,
+      table: [0, length],
+      paramAt: (local) => (length > 0 ? local / length : 0),
+    };
+  }
+
+  const table = [0];
+  for (let step = 1; step <= CURVE_TABLE_STEPS; step += 1) {
+    const t0 = (step - 1) / CURVE_TABLE_STEPS;
+    const t1 = step / CURVE_TABLE_STEPS;
+    table.push(table[step - 1] + integrateSpeed(curve, t0, t1));
+  }
+  const length = table[CURVE_TABLE_STEPS];
+
+  const paramAt = (local: number) => {
+    if (local <= 0) {
+      return 0;
+    }
+    if (local >= length) {
+      return 1;
+    }
+    let low = 0;
+    let high = CURVE_TABLE_STEPS;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (table[mid] <= local) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    const lowT = low / CURVE_TABLE_STEPS;
+    const highT = high / CURVE_TABLE_STEPS;
+    const spanLength = table[high] - table[low];
+    const target = local - table[low];
+    let t = spanLength > 0 ? lowT + (target / spanLength) * (highT - lowT) : lowT;
+    // Newton refinement against the integrated arc length inside this step.
+    for (let iteration = 0; iteration < 3; iteration += 1) {
+      const speed = speedOf(curve, t);
+      if (speed < EPSILON) {
+        break;
+      }
+      const error = integrateSpeed(curve, lowT, t) - target;
+      t = Math.max(lowT, Math.min(highT, t - error / speed));
+    }
+    return t;
+  };
+
+  return { ...curve, subpath, start, end, offset, length, table, paramAt };
+}
+
+function buildSegments(commands: PathCommand[]): MeasuredSegment[] {
+  const segments: MeasuredSegment[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = current;
+  let subpath = -1;
+  let offset = 0;
+
+  const push = (curve: CurveFns | null, end: Point) => {
+    if (subpath < 0) {
+      subpath = 0;
+    }
+    if (curve) {
+      const segment = measureSegment(curve, current, end, subpath, offset);
+      if (segment.length > EPSILON) {
+        segments.push(segment);
+        offset += segment.length;
+      }
+    }
+    current = end;
+  };
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        subpath += 1;
+        current = { x: command.x, y: command.y };
+        subpathStart = current;
+        break;
+      case 'L': {
+        const end = { x: command.x, y: command.y };
+        push(lineCurve(current, end), end);
+        break;
+      }
+      case 'C': {
+        const end = { x: command.x, y: command.y };
+        push(cubicCurve(current, { x: command.x1, y: command.y1 }, { x: command.x2, y: command.y2 }, end), end);
+        break;
+      }
+      case 'Q': {
+        const end = { x: command.x, y: command.y };
+        push(quadraticCurve(current, { x: command.x1, y: command.y1 }, end), end);
+        break;
+      }
+      case 'A': {
+        const end = { x: command.x, y: command.y };
+        push(arcCurve(current, command), end);
+        break;
+      }
+      case 'Z':
+        push(lineCurve(current, subpathStart), subpathStart);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return segments;
+}
+
+function normalize(x: number, y: number): Point | null {
+  const length = Math.hypot(x, y);
+  return length > EPSILON ? { x: x / length, y: y / length } : null;
+}
+
+/**
+ * Builds an arc-length parameterised geometry for SVG path data. Distances are
+ * measured like `SVGPathElement.getTotalLength()`, and tangents come from the
+ * analytic derivative of each segment rather than finite differences.
+ */
+export function createPathGeometry(d: string | PathCommand[]): PathGeometry {
+  const commands = typeof d === 'string' ? parsePathData(d) : d;
+  const segments = buildSegments(commands);
+  const firstMove = commands.find((command): command is Extract<PathCommand, { type: 'M' }> => command.type === 'M');
+  const geometry = geometryFromSegments(segments, firstMove ? { x: firstMove.x, y: firstMove.y } : { x: 0, y: 0 });
+
+  const groups: MeasuredSegment[][] = [];
+  segments.forEach((segment, index) => {
+    if (index === 0 || segment.subpath !== segments[index - 1].subpath) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(segment);
+  });
+  if (groups.length > 1) {
+    geometry.subpaths = groups.map((group) => {
+      const { offset } = group[0];
+      const rebased = group.map((segment) => ({ ...segment, offset: segment.offset - offset }));
+      return { offset, geometry: geometryFromSegments(rebased, group[0].start) };
+    });
+  }
+  return geometry;
+}
+
+function geometryFromSegments(segments: MeasuredSegment[], origin: Point): PathGeometry {
+  const totalLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const closed =
+    first != null &&
+    first.subpath === last.subpath &&
+    Math.hypot(last.end.x - first.start.x, last.end.y - first.start.y) <= Math.max(EPSILON, totalLength * CLOSE_TOLERANCE);
+
+  const locate = (s: number) => {
+    const wrapped = closed ? ((s % totalLength) + totalLength) % totalLength : s;
+    const clamped = Math.max(0, Math.min(totalLength, wrapped));
+    let low = 0;
+    let high = segments.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (segments[mid].offset <= clamped) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const segment = segments[low];
+    return { segment, t: segment.paramAt(clamped - segment.offset) };
+  };
+
+  const pointAt = (s: number): Point => {
+    if (segments.length === 0) {
+      return { ...origin };
+    }
+    const { segment, t } = locate(s);
+    return segment.point(t);
+  };
+
+  const tangentAt = (s: number): Point => {
+    if (segments.length === 0) {
+      return { x: 1, y: 0 };
+    }
+    const { segment, t } = locate(s);
+    const derivative = segment.derivative(t);
+    const direct = normalize(derivative.x, derivative.y);
+    if (direct) {
+      return direct;
+    }
+    // Degenerate control points (e.g. p0 === p1) zero the derivative at the
+    // ends; step slightly inward and finally fall back to the chord.
+    const nudged = segment.derivative(t < 0.5 ? t + 1e-4 : t - 1e-4);
+    return (
+      normalize(nudged.x, nudged.y) ??
+      normalize(segment.end.x - segment.start.x, segment.end.y - segment.start.y) ?? { x: 1, y: 0 }
+    );
+  };
+
+  const sampleAt = (s: number): PathSample => {
+    const t = tangentAt(s);
+    return { p: pointAt(s), t, n: { x: -t.y, y: t.x } };
+  };
+
+  const geometry: PathGeometry = {
+    totalLength,
+    closed,
+    segments,
+    subpaths: [],
+    pointAt,
+    tangentAt,
+    sampleAt,
+  };
+  if (segments.length > 0) {
+    geometry.subpaths = [{ offset: 0, geometry }];
+  }
+  return geometry;
+}
@@ -5,9 +5,36 @@ export type PianoPathPreset = {
   d: string;
 };
 
-export type PianoPathPresetId = PianoPathPreset['id'];
+/**
+ * Ids offered for `pathPreset`. Presets added with `registerPathPreset()` can
+ * be typed by merging into this interface:
+ *
+ * ```ts
+ * declare module 'curved-piano-keys' {
+ *   interface PianoPathPresetRegistry {
+ *     'my-curve': true;
+ *   }
+ * }
+ * ```
+ */
+export interface PianoPathPresetRegistry {
+  's-curve': true;
+  arc: true;
+  squiggle: true;
+  straight: true;
+  wave: true;
+  spiral: true;
+}
 
-export const PIANO_PATH_PRESETS: PianoPathPreset[] = [
+type KnownPathPresetId = Extract<keyof PianoPathPresetRegistry, string>;
+
+/**
+ * Ids accepted by `pathPreset`: the registry's ids autocomplete, and any
+ * other string is allowed for presets registered without merging into it.
+ */
+export type PianoPathPresetId = KnownPathPresetId | (string & {});
+
+export const PIANO_PATH_PRESETS: Array<PianoPathPreset & { id: KnownPathPresetId }> = [
   {
     id: 's-curve',
     name: 'S Curve',
@@ -45,3 +72,29 @@ export const PIANO_PATH_PRESETS: PianoPathPreset[] = [
     d: 'M 520 160 C 320 40 120 200 160 360 C 260 540 620 520 820 360 C 960 240 940 120 760 80',
   },
 ];
+
+const registeredPresets = new Map<string, PianoPathPreset>();
+
+/**
+ * Adds a preset that `pathPreset` can refer to by id, e.g. one built with
+ * `arcPath()` or `sinePath()`. Registering an id again replaces it.
+ */
+export function registerPathPreset(preset: Pick<PianoPathPreset, 'id' | 'd'> & Partial<PianoPathPreset>): PianoPathPreset {
+  if (PIANO_PATH_PRESETS.some((builtIn) => builtIn.id === preset.id)) {
+    console.warn(`curved-piano-keys: registerPathPreset("${preset.id}") replaces the built-in preset.`);
+  }
+  const registered = { name: preset.id, description: '', ...preset };
+  registeredPresets.set(preset.id, registered);
+  return registered;
+}
+
+/** Built-in presets followed by registered ones; a registered id replaces the built-in with that id. */
+export function getPathPresets(): PianoPathPreset[] {
+  const builtIns = PIANO_PATH_PRESETS.map((preset) => registeredPresets.get(preset.id) ?? preset);
+  const added = Array.from(registeredPresets.values()).filter((preset) => !builtIns.includes(preset));
+  return [...builtIns, ...added];
+}
+
+export function getPathPreset(id: string): PianoPathPreset | undefined {
+  return registeredPresets.get(id) ?? PIANO_PATH_PRESETS.find((preset) => preset.id === id);
+}
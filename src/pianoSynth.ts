@@ -0,0 +1,296 @@
+import { noteToMidi, type NoteInput } from './notes';
+
+export type AdsrEnvelope = {
+  /** Seconds from silence to peak. */
+  attack: number;
+  /** Seconds from peak down to the sustain level. */
+  decay: number;
+  /** Level held while the note is down, as a fraction (0-1) of the peak. */
+  sustain: number;
+  /** Seconds from note-off to silence. */
+  release: number;
+};
+
+/** Harmonic amplitudes for a `PeriodicWave`; index 0 is the DC term. */
+export type Wavetable = { real?: number[]; imag: number[] };
+
+export type SynthVoice = OscillatorType | 'piano' | 'organ' | Wavetable;
+
+/** Samples keyed by the note they were recorded at, e.g. `{ A4: buffer, C5: buffer }`. */
+export type SampleMap = Partial<Record<string, AudioBuffer>>;
+
+export type PianoSynthOptions = {
+  /** Oscillator type or wavetable used when no samples are loaded. Defaults to `'piano'`. */
+  voice?: SynthVoice;
+  envelope?: Partial<AdsrEnvelope>;
+  /** Maximum simultaneous voices; the oldest is released when exceeded. Defaults to `16`. */
+  polyphony?: number;
+  /** Master volume, 0-1. Defaults to `0.5`. */
+  volume?: number;
+  /** Pitched samples that replace the oscillator voice. */
+  samples?: SampleMap;
+  /** Frequency of A4 in Hz. Defaults to `440`. */
+  a4Frequency?: number;
+  /** Node the synth connects to. Defaults to `audioContext.destination`. */
+  destination?: AudioNode;
+};
+
+export type PianoSynth = {
+  /** Starts a note. `velocity` is 0-1; `time` defaults to now. */
+  noteOn: (note: NoteInput, velocity?: number, time?: number) => void;
+  noteOff: (note: NoteInput, time?: number) => void;
+  allNotesOff: (time?: number) => void;
+  setVolume: (volume: number) => void;
+  setVoice: (voice: SynthVoice) => void;
+  setEnvelope: (envelope: Partial<AdsrEnvelope>) => void;
+  setSamples: (samples: SampleMap | undefined) => void;
+  /** Number of voices currently sounding or releasing. */
+  readonly activeVoices: number;
+  /** Master gain node, connected to `destination`. */
+  readonly output: GainNode;
+  /** Stops every voice and disconnects the synth. */
+  dispose: () => void;
+};
+
+export const DEFAULT_ENVELOPE: AdsrEnvelope = {
+  attack: 0.005,
+  decay: 0.4,
+  sustain: 0.35,
+  release: 0.3,
+};
+
+/** Built-in wavetables: a bright decaying harmonic series and a drawbar organ. */
+const BUILT_IN_WAVETABLES: Record<'piano' | 'organ', Wavetable> = {
+  piano: { imag: [0, 1, 0.55, 0.32, 0.22, 0.12, 0.08, 0.05, 0.03] },
+  organ: { imag: [0, 1, 0.9, 0.6, 0.7, 0, 0.35, 0, 0.3] },
+};
+
+/** Short fade used when a voice is stolen, to avoid clicks. */
+const STEAL_RELEASE = 0.015;
+
+type Voice = {
+  midi: number;
+  source: OscillatorNode | AudioBufferSourceNode;
+  gain: GainNode;
+  startTime: number;
+  peak: number;
+  envelope: AdsrEnvelope;
+  releasedAt: number | null;
+  endTime: number;
+};
+
+function envelopeLevel(envelope: AdsrEnvelope, peak: number, elapsed: number) {
+  if (elapsed <= 0) {
+    return 0;
+  }
+  if (elapsed < envelope.attack) {
+    return peak * (elapsed / envelope.attack);
+  }
+  const decayElapsed = elapsed - envelope.attack;
+  if (decayElapsed < envelope.decay) {
+    return peak * (1 - (1 - envelope.sustain) * (decayElapsed / envelope.decay));
+  }
+  return peak * envelope.sustain;
+}
+
+function resolveMidi(note: NoteInput) {
+  const midi = noteToMidi(note);
+  if (midi == null) {
+    console.warn(`curved-piano-keys: "${note}" is not a valid note for the synth.`);
+  }
+  return midi;
+}
+
+/**
+ * Creates a small polyphonic synth on any `BaseAudioContext`, so it can be
+ * rendered offline with `OfflineAudioContext` or driven with a stub in tests.
+ * Wire it to the keyboard through `onNoteOn` / `onNoteOff`.
+ */
+export function createPianoSynth(audioContext: BaseAudioContext, options: PianoSynthOptions = {}): PianoSynth {
+  let voice: SynthVoice = options.voice ?? 'piano';
+  let envelope: AdsrEnvelope = { ...DEFAULT_ENVELOPE, ...options.envelope };
+  let samples: Array<{ midi: number; buffer: AudioBuffer }> = [];
+  let periodicWave: PeriodicWave | null = null;
+  const polyphony = Math.max(1, options.polyphony ?? 16);
+  const a4Frequency = options.a4Frequency ?? 440;
+
+  const output = audioContext.createGain();
+  output.gain.value = options.volume ?? 0.5;
+  output.connect(options.destination ?? audioContext.destination);
+
+  const voices: Voice[] = [];
+
+  const buildPeriodicWave = () => {
+    periodicWave = null;
+    if (typeof voice === 'string' && !(voice in BUILT_IN_WAVETABLES)) {
+      return;
+    }
+    const table = typeof voice === 'string' ? BUILT_IN_WAVETABLES[voice as 'piano' | 'organ'] : voice;
+    const imag = new Float32Array(table.imag);
+    const real = table.real ? new Float32Array(table.real) : new Float32Array(imag.length);
+    periodicWave = audioContext.createPeriodicWave(real, imag);
+  };
+
+  const setSamples = (next: SampleMap | undefined) => {
+    samples = [];
+    for (const [note, buffer] of Object.entries(next ?? {})) {
+      const midi = buffer ? noteToMidi(note) : null;
+      if (buffer && midi != null) {
+        samples.push({ midi, buffer });
+      }
+    }
+  };
+
+  const now = () => audioContext.currentTime;
+
+  const prune = (time: number) => {
+    for (let index = voices.length - 1; index >= 0; index -= 1) {
+      if (voices[index].endTime <= time) {
+        voices.splice(index, 1);
+      }
+    }
+  };
+
+  const release = (target: Voice, time: number, duration: number) => {
+    if (target.releasedAt != null && target.endTime <= time + duration) {
+      return;
+    }
+    const level = envelopeLevel(target.envelope, target.peak, time - target.startTime);
+    const gain = target.gain.gain;
+    gain.cancelScheduledValues(time);
+    gain.setValueAtTime(level, time);
+    gain.linearRampToValueAtTime(0, time + duration);
+    target.releasedAt = time;
+    target.endTime = time + duration;
+    target.source.stop(time + duration + 0.02);
+  };
+
+  const createSource = (midi: number) => {
+    if (samples.length > 0) {
+      let nearest = samples[0];
+      for (const sample of samples) {
+        if (Math.abs(sample.midi - midi) < Math.abs(nearest.midi - midi)) {
+          nearest = sample;
+        }
+      }
+      const source = audioContext.createBufferSource();
+      source.buffer = nearest.buffer;
+      source.playbackRate.value = 2 ** ((midi - nearest.midi) / 12);
+      return source;
+    }
+    const oscillator = audioContext.createOscillator();
+    if (periodicWave) {
+      oscillator.setPeriodicWave(periodicWave);
+    } else {
+      oscillator.type = voice as OscillatorType;
+    }
+    oscillator.frequency.value = a4Frequency * 2 ** ((midi - 69) / 12);
+    return oscillator;
+  };
+
+  const noteOff = (note: NoteInput, time = now()) => {
+    const midi = resolveMidi(note);
+    if (midi == null) {
+      return;
+    }
+    for (const target of voices) {
+      if (target.midi === midi && target.releasedAt == null) {
+        release(target, time, target.envelope.release);
+      }
+    }
+  };
+
+  const noteOn = (note: NoteInput, velocity = 0.8, time = now()) => {
+    const midi = resolveMidi(note);
+    if (midi == null) {
+      return;
+    }
+    prune(time);
+    noteOff(midi, time);
+
+    while (voices.length >= polyphony) {
+      const oldest = voices.shift();
+      if (oldest) {
+        release(oldest, time, STEAL_RELEASE);
+      }
+    }
+
+    const source = createSource(midi);
+    const gain = audioContext.createGain();
+    const peak = Math.max(0, Math.min(1, velocity));
+    const voiceEnvelope = envelope;
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(peak, time + voiceEnvelope.attack);
+    gain.gain.linearRampToValueAtTime(peak * voiceEnvelope.sustain, time + voiceEnvelope.attack + voiceEnvelope.decay);
+    source.connect(gain);
+    gain.connect(output);
+    source.start(time);
+
+    voices.push({
+      midi,
+      source,
+      gain,
+      startTime: time,
+      peak,
+      envelope: voiceEnvelope,
+      releasedAt: null,
+      endTime: Infinity,
+    });
+  };
+
+  const allNotesOff = (time = now()) => {
+    for (const target of voices) {
+      if (target.releasedAt == null) {
+        release(target, time, target.envelope.release);
+      }
+    }
+  };
+
+  buildPeriodicWave();
+  setSamples(options.samples);
+
+  return {
+    noteOn,
+    noteOff,
+    allNotesOff,
+    setVolume: (volume) => {
+      output.gain.setValueAtTime(Math.max(0, volume), now());
+    },
+    setVoice: (next) => {
+      voice = next;
+      buildPeriodicWave();
+    },
+    setEnvelope: (next) => {
+      envelope = { ...envelope, ...next };
+    },
+    setSamples,
+    get activeVoices() {
+      prune(now());
+      return voices.length;
+    },
+    output,
+    dispose: () => {
+      const time = now();
+      for (const target of voices) {
+        release(target, time, STEAL_RELEASE);
+      }
+      voices.length = 0;
+      output.disconnect();
+    },
+  };
+}
+
+/**
+ * Fetches and decodes a note-to-URL map into a `SampleMap`, e.g.
+ * `loadSampleMap(ctx, { A3: '/piano/A3.mp3', C4: '/piano/C4.mp3' })`.
+ */
+export async function loadSampleMap(
+  audioContext: BaseAudioContext,
+  urls: Record<string, string>,
+  fetcher: (url: string) => Promise<ArrayBuffer> = (url) => fetch(url).then((response) => response.arrayBuffer()),
+): Promise<SampleMap> {
+  const entries = await Promise.all(
+    Object.entries(urls).map(async ([note, url]) => [note, await audioContext.decodeAudioData(await fetcher(url))] as const),
+  );
+  return Object.fromEntries(entries);
+}
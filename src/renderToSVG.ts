@@ -0,0 +1,250 @@
+import { normalizeActiveNotes } from './activeNotes';
+import { DEFAULTS, defaultViewBoxPadding, resolvePathData } from './defaults';
+import {
+  computeKeyboardLayout,
+  formatPolygonPoints,
+  getLayoutViewBox,
+  type KeyLayout,
+} from './keyboardLayout';
+import { fitKeyLabel, keyLabelText, resolveKeyLabels } from './keyLabels';
+import type { KeyColor } from './notes';
+
+import type { CurvedPianoKeysProps } from './CurvedPianoKeys';
+
+/** React prop names whose SVG attribute keeps its camelCase spelling. */
+const CASE_SENSITIVE_ATTRIBUTES = new Set([
+  'viewBox',
+  'preserveAspectRatio',
+  'gradientUnits',
+  'gradientTransform',
+  'patternUnits',
+  'patternContentUnits',
+  'patternTransform',
+  'clipPathUnits',
+  'maskUnits',
+  'maskContentUnits',
+  'markerUnits',
+  'markerWidth',
+  'markerHeight',
+  'refX',
+  'refY',
+  'pathLength',
+]);
+
+const RENAMED_ATTRIBUTES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+  xlinkHref: 'xlink:href',
+  xmlSpace: 'xml:space',
+  xmlLang: 'xml:lang',
+};
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeText(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function toKebabCase(name: string) {
+  return name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+function attributeName(name: string) {
+  if (RENAMED_ATTRIBUTES[name]) {
+    return RENAMED_ATTRIBUTES[name];
+  }
+  if (CASE_SENSITIVE_ATTRIBUTES.has(name) || name.includes('-')) {
+    return name;
+  }
+  return toKebabCase(name);
+}
+
+function styleToString(style: Record<string, unknown>) {
+  return Object.entries(style)
+    .filter(([, value]) => value != null && value !== '')
+    .map(([key, value]) => `${key.startsWith('--') ? key : toKebabCase(key)}:${String(value)}`)
+    .join(';');
+}
+
+/**
+ * Serialises React-style SVG props to an attribute string. Event handlers,
+ * refs and empty values are dropped since they have no static meaning.
+ */
+function serializeAttributes(attributes: Record<string, unknown>) {
+  let output = '';
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value == null || value === false || typeof value === 'function') {
+      continue;
+    }
+    if (name === 'children' || name === 'key' || name === 'ref' || name === 'dangerouslySetInnerHTML') {
+      continue;
+    }
+    if (name === 'style' && typeof value === 'object') {
+      const style = styleToString(value as Record<string, unknown>);
+      if (style) {
+        output += ` style="${escapeAttribute(style)}"`;
+      }
+      continue;
+    }
+    const text = value === true ? '' : String(value);
+    output += ` ${attributeName(name)}="${escapeAttribute(text)}"`;
+  }
+  return output;
+}
+
+/**
+ * Renders the keyboard to a standalone SVG document string, without React or a
+ * DOM. Useful for emails, OG images and static site builds. Unless overridden
+ * through `svgProps`, the `width`/`height` are taken from the viewBox so the
+ * file has an intrinsic size.
+ */
+export function renderCurvedPianoKeysToSVG(props: CurvedPianoKeysProps = {}): string {
+  const {
+    d,
+    pathPreset,
+    numWhiteKeys,
+    lowNote,
+    highNote,
+    whiteKeyDensity,
+    startOn,
+    startAt,
+    thickness,
+    whiteKeySpan,
+    blackWidthRatio,
+    blackDepth,
+    whiteFill = DEFAULTS.whiteFill,
+    whiteStroke = DEFAULTS.whiteStroke,
+    blackFill = DEFAULTS.blackFill,
+    blackStroke = DEFAULTS.blackStroke,
+    strokeWidth = DEFAULTS.strokeWidth,
+    activeNotes,
+    labels,
+    whiteActiveFill = DEFAULTS.whiteActiveFill,
+    blackActiveFill = DEFAULTS.blackActiveFill,
+    showPath = false,
+    className,
+    orientation,
+    keyShape,
+    overlapStrategy,
+    blackKeyLayout,
+    keyPattern,
+    subpaths,
+    align,
+    pathStart,
+    pathEnd,
+    direction,
+    onGeometryWarning,
+    fitViewBox = DEFAULTS.fitViewBox,
+    viewBoxPadding,
+    svgProps,
+    pathProps,
+  } = props;
+
+  const resolvedPath = resolvePathData(d, pathPreset);
+  const layout = computeKeyboardLayout(resolvedPath, {
+    numWhiteKeys,
+    lowNote,
+    highNote,
+    whiteKeyDensity,
+    startOn,
+    startAt,
+    thickness,
+    whiteKeySpan,
+    blackWidthRatio,
+    blackDepth,
+    orientation,
+    keyShape,
+    overlapStrategy,
+    blackKeyLayout,
+    keyPattern,
+    subpaths,
+    align,
+    pathStart,
+    pathEnd,
+    direction,
+  });
+  layout.warnings.forEach((warning) => onGeometryWarning?.(warning));
+
+  const { className: svgClassName, viewBox: svgViewBox, ...restSvgProps } = svgProps ?? {};
+  let viewBox = svgViewBox ?? DEFAULTS.initialViewBox;
+  if (!svgViewBox && fitViewBox) {
+    const pad = viewBoxPadding ?? defaultViewBoxPadding(strokeWidth);
+    viewBox = getLayoutViewBox(layout, pad) ?? viewBox;
+  }
+  const [, , viewBoxWidth, viewBoxHeight] = viewBox.split(/[\s,]+/);
+
+  const mergedSvgClassName = [className, svgClassName].filter(Boolean).join(' ') || undefined;
+  const svgAttributes = serializeAttributes({
+    xmlns: 'http://www.w3.org/2000/svg',
+    className: mergedSvgClassName,
+    viewBox,
+    width: viewBoxWidth,
+    height: viewBoxHeight,
+    'aria-label': 'Curved piano keyboard',
+    ...restSvgProps,
+  });
+
+  const { d: _ignoredPathD, ...restPathProps } = pathProps ?? {};
+  const resolvedPathProps: Record<string, unknown> = { fill: 'none', ...restPathProps };
+  if (showPath) {
+    resolvedPathProps.stroke = resolvedPathProps.stroke ?? 'rgba(0,0,0,0.15)';
+    resolvedPathProps.strokeDasharray = resolvedPathProps.strokeDasharray ?? '6 6';
+  } else if (resolvedPathProps.stroke === undefined) {
+    resolvedPathProps.stroke = 'none';
+  }
+
+  const activeStyles = normalizeActiveNotes(activeNotes, layout.pattern);
+  const labelOptions = resolveKeyLabels(labels);
+  const colors: Record<KeyColor, { fill: string; stroke: string; activeFill: string; labelFill: string }> = {
+    white: { fill: whiteFill, stroke: whiteStroke, activeFill: whiteActiveFill, labelFill: blackFill },
+    black: { fill: blackFill, stroke: blackStroke, activeFill: blackActiveFill, labelFill: whiteFill },
+  };
+  const renderKeys = (keys: KeyLayout[]) =>
+    keys
+      .map((key) => {
+        const { fill, stroke, activeFill, labelFill } = colors[key.color];
+        const active = activeStyles.get(key.midi);
+        const points = formatPolygonPoints(key.polygon);
+        let output = `<polygon${serializeAttributes({
+          points,
+          fill,
+          stroke,
+          strokeWidth,
+          vectorEffect: 'non-scaling-stroke',
+          shapeRendering: 'geometricPrecision',
+        })}/>`;
+        if (active) {
+          output += `<polygon${serializeAttributes({
+            points,
+            fill: active.color ?? activeFill,
+            fillOpacity: active.velocity ?? 1,
+            stroke: 'none',
+          })}/>`;
+        }
+        const text = active?.label || (labelOptions ? keyLabelText(key, labelOptions, layout.pattern.period) : null);
+        if (text) {
+          const { x, y, angle, fontSize } = fitKeyLabel(key, text, labelOptions?.fontSize);
+          output += `<text${serializeAttributes({
+            x,
+            y,
+            transform: `rotate(${angle} ${x} ${y})`,
+            fontSize,
+            fill: labelFill,
+            textAnchor: 'middle',
+            dominantBaseline: 'central',
+          })}>${escapeText(text)}</text>`;
+        }
+        return `<g${serializeAttributes({ 'data-note': key.note })}>${output}</g>`;
+      })
+      .join('');
+
+  return [
+    `<svg${svgAttributes}>`,
+    `<path${serializeAttributes({ d: resolvedPath, ...resolvedPathProps })}/>`,
+    `<g>${renderKeys(layout.whiteKeys)}</g>`,
+    `<g>${renderKeys(layout.blackKeys)}</g>`,
+    '</svg>',
+  ].join('');
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import type { FocusEvent as ReactFocusEvent, KeyboardEvent as ReactKeyboardEvent, RefObject } from 'react';
+
+import type { KeyboardLayout, KeyLayout } from './keyboardLayout';
+import type { NoteEventHandlers } from './usePointerNotes';
+
+/** Velocity used when a focused key is played with Enter or Space. */
+const KEYBOARD_VELOCITY = 0.8;
+
+const NEXT_KEYS = new Set(['ArrowRight', 'ArrowDown']);
+const PREVIOUS_KEYS = new Set(['ArrowLeft', 'ArrowUp']);
+const TRIGGER_KEYS = new Set(['Enter', ' ']);
+
+function keyIdFromTarget(target: EventTarget | null) {
+  const element = target as Element | null;
+  const owner = typeof element?.closest === 'function' ? element.closest('[data-key-id]') : null;
+  return owner?.getAttribute('data-key-id') ?? null;
+}
+
+function isFocusVisible(target: EventTarget | null) {
+  try {
+    return (target as Element).matches(':focus-visible');
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Roving focus for the keys: one key is in the tab order, arrow keys move
+ * along the path, Home/End jump to either end and Enter/Space play the key.
+ * Focus follows `KeyLayout.id`, since a note can appear on several keys.
+ * Handlers are delegated, so they go on the `<svg>`.
+ */
+export function useKeyFocus(
+  svgRef: RefObject<SVGSVGElement>,
+  layout: KeyboardLayout,
+  enabled: boolean,
+  { onNoteOn, onNoteOff }: NoteEventHandlers,
+) {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [focusVisible, setFocusVisible] = useState(false);
+  const held = useRef(new Map<number, KeyLayout>());
+  const latest = useRef({ onNoteOn, onNoteOff });
+  latest.current = { onNoteOn, onNoteOff };
+
+  const pathOrder = useMemo(
+    () => [...layout.keys].sort((a, b) => a.range[0] + a.range[1] - (b.range[0] + b.range[1])),
+    [layout],
+  );
+
+  const emit = useCallback((type: 'on' | 'off', key: KeyLayout) => {
+    const handler = type === 'on' ? latest.current.onNoteOn : latest.current.onNoteOff;
+    handler?.({
+      midi: key.midi,
+      note: key.note,
+      velocity: KEYBOARD_VELOCITY,
+      pointerId: -1,
+      pointerType: 'keyboard',
+      key,
+    });
+  }, []);
+
+  const releaseAll = useCallback(() => {
+    held.current.forEach((key) => emit('off', key));
+    held.current.clear();
+  }, [emit]);
+
+  useEffect(() => releaseAll, [releaseAll]);
+
+  const focusKey = useCallback(
+    (id: string) => {
+      const element = svgRef.current?.querySelector<SVGGElement>(`[data-key-id="${id}"]`);
+      element?.focus();
+    },
+    [svgRef],
+  );
+
+  const onKeyDown = useCallback(
+    (event: ReactKeyboardEvent<SVGSVGElement>) => {
+      const id = keyIdFromTarget(event.target);
+      const index = pathOrder.findIndex((key) => key.id === id);
+      if (index < 0) {
+        return;
+      }
+
+      let nextIndex: number | null = null;
+      if (NEXT_KEYS.has(event.key)) {
+        nextIndex = Math.min(pathOrder.length - 1, index + 1);
+      } else if (PREVIOUS_KEYS.has(event.key)) {
+        nextIndex = Math.max(0, index - 1);
+      } else if (event.key === 'Home') {
+        nextIndex = 0;
+      } else if (event.key === 'End') {
+        nextIndex = pathOrder.length - 1;
+      }
+
+      if (nextIndex != null) {
+        event.preventDefault();
+        focusKey(pathOrder[nextIndex].id);
+        return;
+      }
+
+      if (TRIGGER_KEYS.has(event.key)) {
+        event.preventDefault();
+        const key = pathOrder[index];
+        if (!event.repeat && !held.current.has(key.midi)) {
+          held.current.set(key.midi, key);
+          emit('on', key);
+        }
+      }
+    },
+    [pathOrder, focusKey, emit],
+  );
+
+  const onKeyUp = useCallback(
+    (event: ReactKeyboardEvent<SVGSVGElement>) => {
+      const id = keyIdFromTarget(event.target);
+      const target = pathOrder.find((key) => key.id === id);
+      const key = target ? held.current.get(target.midi) : undefined;
+      if (key && TRIGGER_KEYS.has(event.key)) {
+        held.current.delete(key.midi);
+        emit('off', key);
+      }
+    },
+    [pathOrder, emit],
+  );
+
+  const onFocus = useCallback((event: ReactFocusEvent<SVGSVGElement>) => {
+    const id = keyIdFromTarget(event.target);
+    if (id != null) {
+      setFocusedId(id);
+      setFocusVisible(isFocusVisible(event.target));
+    }
+  }, []);
+
+  const onBlur = useCallback(
+    (event: ReactFocusEvent<SVGSVGElement>) => {
+      releaseAll();
+      if (keyIdFromTarget(event.relatedTarget) == null) {
+        setFocusVisible(false);
+      }
+    },
+    [releaseAll],
+  );
+
+  if (!enabled) {
+    return null;
+  }
+
+  const tabbableId =
+    focusedId != null && pathOrder.some((key) => key.id === focusedId) ? focusedId : pathOrder[0]?.id ?? null;
+
+  return {
+    focusedId: focusVisible ? focusedId : null,
+    tabbableId,
+    handlers: { onKeyDown, onKeyUp, onFocus, onBlur },
+  };
+}
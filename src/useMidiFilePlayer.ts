@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import type { ActiveNoteStyle } from './activeNotes';
+import type { MidiFile } from './midiFile';
+import { createMidiTransport, type MidiTransport, type MidiTransportOptions } from './midiTransport';
+
+export type UseMidiFilePlayerOptions = Omit<MidiTransportOptions, 'onChange'>;
+
+export type MidiFilePlayerState = {
+  /** Transport for the current file, or `null` before one is loaded. */
+  transport: MidiTransport | null;
+  playing: boolean;
+  /** Seconds of file time. */
+  position: number;
+  duration: number;
+  /** Sounding notes keyed by MIDI number; pass straight to `activeNotes`. */
+  activeNotes: Map<number, ActiveNoteStyle>;
+};
+
+const EMPTY_NOTES = new Map<number, ActiveNoteStyle>();
+
+/**
+ * Plays a parsed MIDI file on the keyboard. A new transport is created for
+ * each file; `tempoScale` and `loop` follow the options, `clock` and the
+ * initial mutes are read when the file loads and everything else is
+ * controlled through `transport`.
+ */
+export function useMidiFilePlayer(file: MidiFile | null, options: UseMidiFilePlayerOptions = {}): MidiFilePlayerState {
+  const { tempoScale, loop } = options;
+  const [transport, setTransport] = useState<MidiTransport | null>(null);
+  const [snapshot, setSnapshot] = useState({ playing: false, position: 0, activeNotes: EMPTY_NOTES });
+  const callbacks = useRef(options);
+  callbacks.current = options;
+
+  useEffect(() => {
+    if (!file) {
+      setTransport(null);
+      setSnapshot({ playing: false, position: 0, activeNotes: EMPTY_NOTES });
+      return undefined;
+    }
+    // Read here rather than listed as a dependency, so an inline clock does not restart playback every render.
+    const { clock, mutedTracks, mutedChannels } = callbacks.current;
+    const next = createMidiTransport(file, {
+      clock,
+      mutedTracks,
+      mutedChannels,
+      tempoScale: callbacks.current.tempoScale,
+      loop: callbacks.current.loop,
+      noteStyle: (note) => callbacks.current.noteStyle?.(note) ?? { velocity: note.velocity },
+      onNoteOn: (note) => callbacks.current.onNoteOn?.(note),
+      onNoteOff: (note) => callbacks.current.onNoteOff?.(note),
+      onEnd: () => callbacks.current.onEnd?.(),
+      onChange: () =>
+        setSnapshot({ playing: next.playing, position: next.position, activeNotes: next.activeNotes }),
+    });
+    setTransport(next);
+    setSnapshot({ playing: false, position: 0, activeNotes: next.activeNotes });
+    return () => next.dispose();
+  }, [file]);
+
+  useEffect(() => {
+    if (tempoScale != null) {
+      transport?.setTempoScale(tempoScale);
+    }
+  }, [transport, tempoScale]);
+
+  useEffect(() => {
+    transport?.setLoop(loop ?? false);
+  }, [transport, loop]);
+
+  return {
+    transport,
+    playing: snapshot.playing,
+    position: snapshot.position,
+    duration: file?.duration ?? 0,
+    activeNotes: snapshot.activeNotes,
+  };
+}
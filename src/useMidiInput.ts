@@ -0,0 +1,323 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { ActiveNoteStyle } from './activeNotes';
+import { midiToNoteInfo } from './notes';
+
+export type MidiMessage =
+  | { type: 'noteon'; channel: number; midi: number; velocity: number }
+  | { type: 'noteoff'; channel: number; midi: number; velocity: number }
+  | { type: 'sustain'; channel: number; down: boolean }
+  | { type: 'allnotesoff'; channel: number };
+
+/** Controller numbers for "all sound off" and "all notes off". */
+const ALL_OFF_CONTROLLERS = new Set([120, 123]);
+const SUSTAIN_CONTROLLER = 64;
+
+/**
+ * Decodes the channel-voice messages the keyboard cares about. Channels are
+ * 1-16 and velocities are normalised to 0-1. Returns `null` for anything else.
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+  if (data.length < 3) {
+    return null;
+  }
+  const kind = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  if (kind === 0x90 && data[2] > 0) {
+    return { type: 'noteon', channel, midi: data[1], velocity: data[2] / 127 };
+  }
+  if (kind === 0x80 || kind === 0x90) {
+    return { type: 'noteoff', channel, midi: data[1], velocity: data[2] / 127 };
+  }
+  if (kind === 0xb0 && data[1] === SUSTAIN_CONTROLLER) {
+    return { type: 'sustain', channel, down: data[2] >= 64 };
+  }
+  if (kind === 0xb0 && ALL_OFF_CONTROLLERS.has(data[1])) {
+    return { type: 'allnotesoff', channel };
+  }
+  return null;
+}
+
+export type MidiInputDevice = {
+  id: string;
+  name: string;
+  manufacturer: string;
+};
+
+export type MidiNoteEvent = {
+  midi: number;
+  note: string;
+  velocity: number;
+  channel: number;
+  inputId: string;
+};
+
+export type MidiInputStatus = 'idle' | 'pending' | 'ready' | 'unsupported' | 'denied';
+
+export type UseMidiInputOptions = {
+  /**
+   * Use this MIDI access instead of calling `navigator.requestMIDIAccess()`.
+   * Handy for tests with a fake device or when access is shared app-wide.
+   */
+  midiAccess?: MIDIAccess | Promise<MIDIAccess>;
+
+  /** Request access on mount. Defaults to `true`; set `false` to wait for `requestAccess()`. */
+  autoRequest?: boolean;
+
+  /** Initially selected input id. `null` (default) listens to every input. */
+  inputId?: string | null;
+
+  /** Initial channel filter (1-16). `null` (default) accepts all channels. */
+  channel?: number | number[] | null;
+
+  /** Called when a note starts sounding. */
+  onNoteOn?: (event: MidiNoteEvent) => void;
+
+  /** Called when a note stops sounding; held back while the sustain pedal is down. */
+  onNoteOff?: (event: MidiNoteEvent) => void;
+};
+
+export type MidiInputState = {
+  status: MidiInputStatus;
+  error: unknown;
+  inputs: MidiInputDevice[];
+  inputId: string | null;
+  selectInput: (inputId: string | null) => void;
+  channel: number | number[] | null;
+  setChannel: (channel: number | number[] | null) => void;
+  /** Sounding notes keyed by MIDI number; pass straight to `activeNotes`. */
+  activeNotes: Map<number, ActiveNoteStyle>;
+  sustain: boolean;
+  requestAccess: () => Promise<void>;
+};
+
+type SoundingNote = { midi: number; velocity: number; channel: number; inputId: string; held: boolean };
+
+function acceptsChannel(filter: number | number[] | null, channel: number) {
+  if (filter == null) {
+    return true;
+  }
+  return Array.isArray(filter) ? filter.includes(channel) : filter === channel;
+}
+
+function listInputs(access: MIDIAccess): MidiInputDevice[] {
+  const devices: MidiInputDevice[] = [];
+  access.inputs.forEach((input) => {
+    devices.push({ id: input.id, name: input.name ?? input.id, manufacturer: input.manufacturer ?? '' });
+  });
+  return devices;
+}
+
+/**
+ * Mirrors a Web MIDI keyboard: note-on/off, velocity and the sustain pedal
+ * (CC64) become an `activeNotes` map for `CurvedPianoKeys`.
+ */
+export function useMidiInput(options: UseMidiInputOptions = {}): MidiInputState {
+  const { autoRequest = true } = options;
+  const [access, setAccess] = useState<MIDIAccess | null>(null);
+  const [status, setStatus] = useState<MidiInputStatus>('idle');
+  const [error, setError] = useState<unknown>(null);
+  const [inputs, setInputs] = useState<MidiInputDevice[]>([]);
+  const [inputId, selectInput] = useState<string | null>(options.inputId ?? null);
+  const [channel, setChannel] = useState<number | number[] | null>(options.channel ?? null);
+  const [activeNotes, setActiveNotes] = useState<Map<number, ActiveNoteStyle>>(() => new Map());
+  const [sustain, setSustain] = useState(false);
+
+  // Keyed by channel and note, so the same note on two channels sounds twice.
+  const sounding = useRef(new Map<string, SoundingNote>());
+  const sustainDown = useRef(false);
+  const callbacks = useRef(options);
+  callbacks.current = options;
+
+  const publish = useCallback(() => {
+    const next = new Map<number, ActiveNoteStyle>();
+    sounding.current.forEach((note) => {
+      const velocity = Math.max(note.velocity, next.get(note.midi)?.velocity ?? 0);
+      next.set(note.midi, { velocity });
+    });
+    setActiveNotes(next);
+  }, []);
+
+  const stop = useCallback((key: string) => {
+    const note = sounding.current.get(key);
+    if (!note) {
+      return;
+    }
+    sounding.current.delete(key);
+    callbacks.current.onNoteOff?.({
+      midi: note.midi,
+      note: midiToNoteInfo(note.midi).name,
+      velocity: note.velocity,
+      channel: note.channel,
+      inputId: note.inputId,
+    });
+  }, []);
+
+  const stopAll = useCallback(() => {
+    Array.from(sounding.current.keys()).forEach(stop);
+  }, [stop]);
+
+  // Read at request time, so an inline `requestMIDIAccess()` promise does not request again every render.
+  const requestAccess = useCallback(async () => {
+    setStatus('pending');
+    try {
+      const { midiAccess } = callbacks.current;
+      let next: MIDIAccess;
+      if (midiAccess) {
+        next = await midiAccess;
+      } else if (typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function') {
+        next = await navigator.requestMIDIAccess();
+      } else {
+        setStatus('unsupported');
+        return;
+      }
+      setAccess(next);
+      setInputs(listInputs(next));
+      setStatus('ready');
+    } catch (requestError) {
+      setError(requestError);
+      setStatus('denied');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoRequest) {
+      void requestAccess();
+    }
+  }, [autoRequest, requestAccess]);
+
+  useEffect(() => {
+    if (!access) {
+      return undefined;
+    }
+    const handleStateChange = () => setInputs(listInputs(access));
+    access.addEventListener('statechange', handleStateChange);
+    return () => access.removeEventListener('statechange', handleStateChange);
+  }, [access]);
+
+  // Ids of the inputs listened to; other devices coming and going leave the subscription alone.
+  const listenedIds = inputs
+    .filter((input) => inputId == null || input.id === inputId)
+    .map((input) => input.id)
+    .join('\n');
+
+  useEffect(() => {
+    if (!access) {
+      return undefined;
+    }
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      const message = event.data ? parseMidiMessage(event.data) : null;
+      if (!message || !acceptsChannel(channel, message.channel)) {
+        return;
+      }
+      const sourceId = (event.currentTarget as MIDIInput | null)?.id ?? '';
+
+      switch (message.type) {
+        case 'noteon': {
+          const key = `${message.channel}:${message.midi}`;
+          if (sounding.current.has(key)) {
+            stop(key);
+          }
+          sounding.current.set(key, {
+            midi: message.midi,
+            velocity: message.velocity,
+            channel: message.channel,
+            inputId: sourceId,
+            held: true,
+          });
+          callbacks.current.onNoteOn?.({
+            midi: message.midi,
+            note: midiToNoteInfo(message.midi).name,
+            velocity: message.velocity,
+            channel: message.channel,
+            inputId: sourceId,
+          });
+          break;
+        }
+        case 'noteoff': {
+          const key = `${message.channel}:${message.midi}`;
+          const note = sounding.current.get(key);
+          if (note && sustainDown.current) {
+            note.held = false;
+          } else {
+            stop(key);
+          }
+          break;
+        }
+        case 'sustain':
+          sustainDown.current = message.down;
+          setSustain(message.down);
+          if (!message.down) {
+            sounding.current.forEach((note, key) => {
+              if (!note.held) {
+                stop(key);
+              }
+            });
+          }
+          break;
+        case 'allnotesoff':
+          sounding.current.forEach((note, key) => {
+            if (note.channel === message.channel) {
+              stop(key);
+            }
+          });
+          break;
+        default:
+          break;
+      }
+      publish();
+    };
+
+    const ids = listenedIds.split('\n');
+    // Notes from an input that is no longer listened to would never get their note-off.
+    let released = false;
+    sounding.current.forEach((note, key) => {
+      if (!ids.includes(note.inputId)) {
+        stop(key);
+        released = true;
+      }
+    });
+    if (released) {
+      publish();
+    }
+
+    const listening: MIDIInput[] = [];
+    access.inputs.forEach((input) => {
+      if (ids.includes(input.id)) {
+        input.addEventListener('midimessage', handleMessage);
+        listening.push(input);
+      }
+    });
+
+    return () => {
+      listening.forEach((input) => input.removeEventListener('midimessage', handleMessage));
+    };
+  }, [access, listenedIds, channel, stop, publish]);
+
+  useEffect(
+    () => () => {
+      // Switching device or channel must not leave notes stuck on.
+      stopAll();
+      sustainDown.current = false;
+      setSustain(false);
+      publish();
+    },
+    [access, inputId, channel, stopAll, publish],
+  );
+
+  return {
+    status,
+    error,
+    inputs,
+    inputId,
+    selectInput,
+    channel,
+    setChannel,
+    activeNotes,
+    sustain,
+    requestAccess,
+  };
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+import { createMidiFile, writeMidiFile, type MidiFile } from './midiFile';
+import { createAnimationFrameClock, type TransportClock } from './midiTransport';
+import { notesToEvents, quantizeNotes, type RecordedNote } from './noteRecording';
+import { useMidiFilePlayer, type MidiFilePlayerState, type UseMidiFilePlayerOptions } from './useMidiFilePlayer';
+
+export type UseNoteRecorderOptions = Pick<UseMidiFilePlayerOptions, 'onNoteOn' | 'onNoteOff' | 'noteStyle'> & {
+  /** Time source for timestamps and playback. Defaults to `performance.now()`. */
+  clock?: TransportClock;
+  /** Tempo for the quantise grid and the exported MIDI file. Defaults to `120`. */
+  bpm?: number;
+  /** Notes to start with, e.g. a saved take. */
+  initialNotes?: RecordedNote[];
+};
+
+/** Anything with a MIDI number and a velocity: `NoteEvent`, `MidiNoteEvent` and the like. */
+export type RecordableNoteEvent = { midi: number; velocity?: number; channel?: number };
+
+export type NoteRecorderState = {
+  recording: boolean;
+  /** The take so far; notes played during a recording are added when it stops. */
+  notes: RecordedNote[];
+  /**
+   * Starts recording. With `overdub` the existing take plays back from the
+   * start and the new notes are layered on top; otherwise it is replaced.
+   */
+  start: (options?: { overdub?: boolean }) => void;
+  /** Stops recording, ending any held notes now. */
+  stop: () => void;
+  clear: () => void;
+  /** Wire to `onNoteOn` / `onNoteOff` of `CurvedPianoKeys`, `useMidiInput` and so on. */
+  noteOn: (event: RecordableNoteEvent) => void;
+  noteOff: (event: RecordableNoteEvent) => void;
+  /** Snaps the take to a grid of `division` steps per beat (`4` = sixteenths). */
+  quantize: (division?: number, strength?: number) => void;
+  /** The take as a `MidiFile`, for `CurvedPianoRoll` or further editing. */
+  file: MidiFile;
+  /** Playback of the take; `player.activeNotes` goes straight to `activeNotes`. */
+  player: MidiFilePlayerState;
+  exportMidi: () => Uint8Array;
+  /** JSON list of `RecordedEvent`s with the tempo. */
+  exportJson: () => string;
+};
+
+type HeldNote = { start: number; velocity: number; channel: number };
+
+function toRecordedNote(midi: number, note: HeldNote, end: number): RecordedNote {
+  const { start, velocity, channel } = note;
+  return { midi, time: start, duration: Math.max(0, end - start), velocity, channel };
+}
+
+/**
+ * Records what is played on the keyboard with timestamps and velocities, and
+ * plays it back through a MIDI file transport so the recording lights the
+ * keys exactly as a loaded file would.
+ */
+export function useNoteRecorder(options: UseNoteRecorderOptions = {}): NoteRecorderState {
+  const { bpm = 120 } = options;
+  const clock = useMemo(() => options.clock ?? createAnimationFrameClock(), [options.clock]);
+  const [notes, setNotes] = useState<RecordedNote[]>(() => options.initialNotes ?? []);
+  const [recording, setRecording] = useState(false);
+  const take = useRef<{ origin: number; notes: RecordedNote[]; held: Map<number, HeldNote[]> } | null>(null);
+
+  const file = useMemo(() => createMidiFile(notes, { bpm }), [notes, bpm]);
+  const player = useMidiFilePlayer(file, {
+    clock,
+    onNoteOn: options.onNoteOn,
+    onNoteOff: options.onNoteOff,
+    noteStyle: options.noteStyle,
+  });
+  const { transport } = player;
+
+  const start = useCallback(
+    ({ overdub = false }: { overdub?: boolean } = {}) => {
+      if (take.current) {
+        return;
+      }
+      take.current = { origin: clock.now(), notes: [], held: new Map() };
+      if (overdub) {
+        transport?.seek(0);
+        transport?.play();
+      } else {
+        transport?.stop();
+        setNotes([]);
+      }
+      setRecording(true);
+    },
+    [clock, transport],
+  );
+
+  const noteOn = useCallback(
+    (event: RecordableNoteEvent) => {
+      const current = take.current;
+      if (!current) {
+        return;
+      }
+      const held = current.held.get(event.midi) ?? [];
+      held.push({ start: clock.now() - current.origin, velocity: event.velocity ?? 0.8, channel: event.channel ?? 1 });
+      current.held.set(event.midi, held);
+    },
+    [clock],
+  );
+
+  const noteOff = useCallback(
+    (event: RecordableNoteEvent) => {
+      const current = take.current;
+      const note = current?.held.get(event.midi)?.shift();
+      if (!current || !note) {
+        return;
+      }
+      current.notes.push(toRecordedNote(event.midi, note, clock.now() - current.origin));
+    },
+    [clock],
+  );
+
+  const stop = useCallback(() => {
+    const current = take.current;
+    if (!current) {
+      return;
+    }
+    const time = clock.now() - current.origin;
+    current.held.forEach((held, midi) => {
+      held.forEach((note) => current.notes.push(toRecordedNote(midi, note, time)));
+    });
+    take.current = null;
+    transport?.pause();
+    setNotes((previous) => [...previous, ...current.notes].sort((a, b) => a.time - b.time || a.midi - b.midi));
+    setRecording(false);
+  }, [clock, transport]);
+
+  const clear = useCallback(() => {
+    take.current = null;
+    setRecording(false);
+    setNotes([]);
+  }, []);
+
+  const quantize = useCallback(
+    (division = 4, strength = 1) => {
+      setNotes((previous) => quantizeNotes(previous, { grid: 60 / bpm / division, strength }));
+    },
+    [bpm],
+  );
+
+  const exportMidi = useCallback(() => writeMidiFile(file), [file]);
+  const exportJson = useCallback(() => JSON.stringify({ bpm, events: notesToEvents(notes) }), [bpm, notes]);
+
+  return {
+    recording,
+    notes,
+    start,
+    stop,
+    clear,
+    noteOn,
+    noteOff,
+    quantize,
+    file,
+    player,
+    exportMidi,
+    exportJson,
+  };
+}
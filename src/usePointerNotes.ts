@@ -0,0 +1,159 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+import type { PointerEvent as ReactPointerEvent, RefObject } from 'react';
+
+import { hitTestKeyboard, keyDepthFraction, type KeyboardLayout, type KeyLayout } from './keyboardLayout';
+
+export type NoteEvent = {
+  midi: number;
+  /** Scientific pitch name, e.g. `"C#4"`. */
+  note: string;
+  /** 0-1. Pen pressure when available, otherwise how far toward the front of the key it was struck. */
+  velocity: number;
+  /** Pointer that played the note; `-1` for computer-keyboard input. */
+  pointerId: number;
+  /** `'mouse'`, `'pen'`, `'touch'`, or `'keyboard'` for computer-keyboard input. */
+  pointerType: string;
+  /** Layout of the played key, or `null` when the note is outside the rendered range. */
+  key: KeyLayout | null;
+};
+
+export type NoteEventHandlers = {
+  onNoteOn?: (event: NoteEvent) => void;
+  onNoteOff?: (event: NoteEvent) => void;
+};
+
+/** Softest velocity produced by a positional strike, so edge taps stay audible. */
+const MIN_POSITIONAL_VELOCITY = 0.2;
+
+type HeldNote = { key: KeyLayout; velocity: number; pointerType: string };
+
+function toPathPoint(svg: SVGSVGElement, clientX: number, clientY: number) {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) {
+    return null;
+  }
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { x: point.x, y: point.y };
+}
+
+/**
+ * Turns pointer input on the keyboard `<svg>` into note-on/off callbacks.
+ * Each pointer holds at most one key, so multi-touch plays chords and dragging
+ * glissandos from key to key.
+ */
+export function usePointerNotes(
+  svgRef: RefObject<SVGSVGElement>,
+  layout: KeyboardLayout,
+  { onNoteOn, onNoteOff }: NoteEventHandlers,
+) {
+  const enabled = Boolean(onNoteOn || onNoteOff);
+  const held = useRef(new Map<number, HeldNote | null>());
+  const latest = useRef({ layout, onNoteOn, onNoteOff });
+  latest.current = { layout, onNoteOn, onNoteOff };
+
+  const release = useCallback((pointerId: number) => {
+    const note = held.current.get(pointerId);
+    if (note) {
+      latest.current.onNoteOff?.({
+        midi: note.key.midi,
+        note: note.key.note,
+        velocity: note.velocity,
+        pointerId,
+        pointerType: note.pointerType,
+        key: note.key,
+      });
+    }
+    held.current.set(pointerId, null);
+  }, []);
+
+  const press = useCallback(
+    (event: ReactPointerEvent<SVGSVGElement>) => {
+      const svg = svgRef.current;
+      const point = svg ? toPathPoint(svg, event.clientX, event.clientY) : null;
+      const key = point ? hitTestKeyboard(latest.current.layout, point) : null;
+      const current = held.current.get(event.pointerId);
+      if (current && key && current.key.midi === key.midi) {
+        return;
+      }
+      if (current) {
+        release(event.pointerId);
+      }
+      if (!key || !point) {
+        return;
+      }
+
+      const velocity =
+        event.pointerType === 'pen' && event.pressure > 0
+          ? event.pressure
+          : MIN_POSITIONAL_VELOCITY + (1 - MIN_POSITIONAL_VELOCITY) * keyDepthFraction(key, point);
+      held.current.set(event.pointerId, { key, velocity, pointerType: event.pointerType });
+      latest.current.onNoteOn?.({
+        midi: key.midi,
+        note: key.note,
+        velocity,
+        pointerId: event.pointerId,
+        pointerType: event.pointerType,
+        key,
+      });
+    },
+    [release, svgRef],
+  );
+
+  const onPointerDown = useCallback(
+    (event: ReactPointerEvent<SVGSVGElement>) => {
+      if (event.button !== 0 && event.pointerType === 'mouse') {
+        return;
+      }
+      // Capture keeps move/up events flowing to the svg while the pointer is
+      // dragged across (or off) the keys.
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+      held.current.set(event.pointerId, null);
+      press(event);
+    },
+    [press],
+  );
+
+  const onPointerMove = useCallback(
+    (event: ReactPointerEvent<SVGSVGElement>) => {
+      if (held.current.has(event.pointerId)) {
+        press(event);
+      }
+    },
+    [press],
+  );
+
+  const onPointerEnd = useCallback(
+    (event: ReactPointerEvent<SVGSVGElement>) => {
+      if (held.current.has(event.pointerId)) {
+        release(event.pointerId);
+        held.current.delete(event.pointerId);
+      }
+    },
+    [release],
+  );
+
+  useEffect(
+    () => () => {
+      for (const pointerId of Array.from(held.current.keys())) {
+        release(pointerId);
+      }
+      held.current.clear();
+    },
+    [release],
+  );
+
+  if (!enabled) {
+    return null;
+  }
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp: onPointerEnd,
+    onPointerCancel: onPointerEnd,
+    onLostPointerCapture: onPointerEnd,
+  };
+}
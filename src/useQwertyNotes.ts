@@ -0,0 +1,212 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { RefObject } from 'react';
+
+import type { KeyboardLayout } from './keyboardLayout';
+import { patternStepName } from './keyPatterns';
+import type { NoteEventHandlers } from './usePointerNotes';
+
+export type QwertyInputOptions = {
+  /** Octave played by the `A` key (which maps to C, or the pattern's first step). Defaults to `4`. */
+  octave?: number;
+  /** Velocity (0-1) for every computer-keyboard note. Defaults to `0.8`. */
+  velocity?: number;
+  /**
+   * `'window'` (default) listens everywhere on the page, like a DAW;
+   * `'focus'` only while one of the keys has focus.
+   */
+  target?: 'window' | 'focus';
+  /** Draw the mapped letters on the keys. Defaults to `true`. */
+  showHints?: boolean;
+  /** Called after `Z` / `X` change the octave. */
+  onOctaveChange?: (octave: number) => void;
+};
+
+/**
+ * Physical key codes to semitones above the base C, as in most DAWs. With a
+ * `keyPattern` of another period they count the pattern's steps instead.
+ */
+export const QWERTY_NOTE_CODES: Record<string, number> = {
+  KeyA: 0,
+  KeyW: 1,
+  KeyS: 2,
+  KeyE: 3,
+  KeyD: 4,
+  KeyF: 5,
+  KeyT: 6,
+  KeyG: 7,
+  KeyY: 8,
+  KeyH: 9,
+  KeyU: 10,
+  KeyJ: 11,
+  KeyK: 12,
+  KeyO: 13,
+  KeyL: 14,
+  KeyP: 15,
+  Semicolon: 16,
+  Quote: 17,
+};
+
+const OCTAVE_DOWN_CODE = 'KeyZ';
+const OCTAVE_UP_CODE = 'KeyX';
+const MIN_OCTAVE = -1;
+const MAX_OCTAVE = 8;
+
+export type QwertyHint = { midi: number; label: string };
+
+function hintLabel(code: string) {
+  if (code === 'Semicolon') {
+    return ';';
+  }
+  if (code === 'Quote') {
+    return "'";
+  }
+  return code.slice(3);
+}
+
+function isTypingTarget(target: EventTarget | null) {
+  if (!target || typeof (target as HTMLElement).tagName !== 'string') {
+    return false;
+  }
+  const element = target as HTMLElement;
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+}
+
+/**
+ * Plays notes from the computer keyboard. Notes are tracked by physical key,
+ * so auto-repeat, octave changes mid-note, window blur and hidden tabs can
+ * never leave a note stuck on.
+ */
+export function useQwertyNotes(
+  svgRef: RefObject<SVGSVGElement>,
+  layout: KeyboardLayout,
+  options: QwertyInputOptions | null,
+  { onNoteOn, onNoteOff }: NoteEventHandlers,
+) {
+  const enabled = options != null;
+  const target = options?.target ?? 'window';
+  const [octave, setOctave] = useState(options?.octave ?? 4);
+  const held = useRef(new Map<string, { midi: number; velocity: number }>());
+  const latest = useRef({ layout, options, onNoteOn, onNoteOff });
+  latest.current = { layout, options, onNoteOn, onNoteOff };
+  const octaveRef = useRef(octave);
+  octaveRef.current = octave;
+
+  useEffect(() => {
+    if (options?.octave != null) {
+      setOctave(options.octave);
+    }
+  }, [options?.octave]);
+
+  const emit = useCallback((type: 'on' | 'off', midi: number, velocity: number) => {
+    const { layout: currentLayout, onNoteOn: handleOn, onNoteOff: handleOff } = latest.current;
+    const event = {
+      midi,
+      note: patternStepName(currentLayout.pattern, midi),
+      velocity,
+      pointerId: -1,
+      pointerType: 'keyboard',
+      key: currentLayout.keys.find((key) => key.midi === midi) ?? null,
+    };
+    (type === 'on' ? handleOn : handleOff)?.(event);
+  }, []);
+
+  const releaseAll = useCallback(() => {
+    held.current.forEach(({ midi, velocity }) => emit('off', midi, velocity));
+    held.current.clear();
+  }, [emit]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return undefined;
+    }
+    const eventTarget: EventTarget | null = target === 'focus' ? svgRef.current : window;
+    if (!eventTarget) {
+      return undefined;
+    }
+
+    const handleKeyDown = (event: Event) => {
+      const keyEvent = event as KeyboardEvent;
+      if (keyEvent.ctrlKey || keyEvent.metaKey || keyEvent.altKey || isTypingTarget(keyEvent.target)) {
+        return;
+      }
+
+      if (keyEvent.code === OCTAVE_DOWN_CODE || keyEvent.code === OCTAVE_UP_CODE) {
+        keyEvent.preventDefault();
+        if (keyEvent.repeat) {
+          return;
+        }
+        const step = keyEvent.code === OCTAVE_UP_CODE ? 1 : -1;
+        const next = Math.max(MIN_OCTAVE, Math.min(MAX_OCTAVE, octaveRef.current + step));
+        if (next !== octaveRef.current) {
+          octaveRef.current = next;
+          setOctave(next);
+          latest.current.options?.onOctaveChange?.(next);
+        }
+        return;
+      }
+
+      const semitone = QWERTY_NOTE_CODES[keyEvent.code];
+      if (semitone == null) {
+        return;
+      }
+      keyEvent.preventDefault();
+      // Auto-repeat and a second keydown without a keyup must not retrigger.
+      if (keyEvent.repeat || held.current.has(keyEvent.code)) {
+        return;
+      }
+      const midi = (octaveRef.current + 1) * latest.current.layout.pattern.period + semitone;
+      const velocity = latest.current.options?.velocity ?? 0.8;
+      held.current.set(keyEvent.code, { midi, velocity });
+      emit('on', midi, velocity);
+    };
+
+    const handleKeyUp = (event: Event) => {
+      const keyEvent = event as KeyboardEvent;
+      const note = held.current.get(keyEvent.code);
+      if (note) {
+        held.current.delete(keyEvent.code);
+        emit('off', note.midi, note.velocity);
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        releaseAll();
+      }
+    };
+
+    eventTarget.addEventListener('keydown', handleKeyDown);
+    eventTarget.addEventListener('keyup', handleKeyUp);
+    // Keyups are lost once focus leaves, so release everything instead.
+    window.addEventListener('blur', releaseAll);
+    if (target === 'focus') {
+      eventTarget.addEventListener('focusout', releaseAll);
+    }
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      eventTarget.removeEventListener('keydown', handleKeyDown);
+      eventTarget.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      eventTarget.removeEventListener('focusout', releaseAll);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      releaseAll();
+    };
+  }, [enabled, target, svgRef, emit, releaseAll]);
+
+  if (!enabled) {
+    return null;
+  }
+
+  const hints: QwertyHint[] = [];
+  if (options?.showHints ?? true) {
+    for (const [code, semitone] of Object.entries(QWERTY_NOTE_CODES)) {
+      hints.push({ midi: (octave + 1) * layout.pattern.period + semitone, label: hintLabel(code) });
+    }
+  }
+
+  return { octave, hints };
+}
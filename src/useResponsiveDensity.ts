@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import type { RefObject } from 'react';
+
+import type { KeepRange, WhiteKeyDensitySetting } from './keyboardLayout';
+
+export type ResponsiveBreakpoint = {
+  /** Rendered width of the `<svg>` in CSS pixels from which this breakpoint applies. */
+  minWidth: number;
+  whiteKeyDensity?: WhiteKeyDensitySetting;
+  /** Fixed white-key count at this size, instead of one derived from the density. */
+  numWhiteKeys?: number;
+  keep?: KeepRange;
+};
+
+export type ResponsiveDensityOptions = {
+  /**
+   * Where keys are added or removed as the size changes. Defaults to
+   * `'center'` when both `lowNote` and `highNote` are set, otherwise `'octaves'`.
+   */
+  keep?: KeepRange;
+  /** Per-width overrides; the one with the largest `minWidth` not above the rendered width wins. */
+  breakpoints?: ReadonlyArray<ResponsiveBreakpoint>;
+};
+
+export type RenderedSize = {
+  /** Rendered width of the `<svg>` in CSS pixels. */
+  width: number;
+  /** Screen pixels per path unit, including the viewBox scale and CSS transforms. */
+  pixelsPerUnit: number;
+};
+
+/** Relative scale change ignored, so refitting the viewBox to the new keys cannot loop. */
+const SCALE_TOLERANCE = 0.02;
+
+function measureSvg(svg: SVGSVGElement): RenderedSize | null {
+  const { width } = svg.getBoundingClientRect();
+  const matrix = svg.getScreenCTM();
+  if (!(width > 0) || !matrix) {
+    return null;
+  }
+  return { width, pixelsPerUnit: Math.hypot(matrix.a, matrix.b) };
+}
+
+/** The breakpoint in effect at `width`, or `null` when none applies. */
+export function resolveResponsiveBreakpoint(
+  breakpoints: ReadonlyArray<ResponsiveBreakpoint> | undefined,
+  width: number,
+): ResponsiveBreakpoint | null {
+  let match: ResponsiveBreakpoint | null = null;
+  for (const breakpoint of breakpoints ?? []) {
+    if (breakpoint.minWidth <= width && (!match || breakpoint.minWidth >= match.minWidth)) {
+      match = breakpoint;
+    }
+  }
+  return match;
+}
+
+/**
+ * Watches the rendered `<svg>` so density spans can be measured in screen
+ * pixels. Resizes are picked up with a `ResizeObserver` and viewBox changes
+ * with a `MutationObserver`. Before the first measurement (and on the server)
+ * only breakpoints with `minWidth: 0` apply and spans stay in path units.
+ */
+export function useResponsiveDensity(svgRef: RefObject<SVGSVGElement>, options: ResponsiveDensityOptions | null) {
+  const enabled = options != null;
+  const [size, setSize] = useState<RenderedSize | null>(null);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!enabled || !svg) {
+      return undefined;
+    }
+    const update = () => {
+      const next = measureSvg(svg);
+      if (!next) {
+        return;
+      }
+      setSize((previous) =>
+        previous &&
+        Math.abs(previous.width - next.width) < 0.5 &&
+        Math.abs(previous.pixelsPerUnit - next.pixelsPerUnit) <= previous.pixelsPerUnit * SCALE_TOLERANCE
+          ? previous
+          : next,
+      );
+    };
+    update();
+
+    const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update);
+    resizeObserver?.observe(svg);
+    const mutationObserver = typeof MutationObserver === 'undefined' ? null : new MutationObserver(update);
+    mutationObserver?.observe(svg, { attributes: true, attributeFilter: ['viewBox'] });
+    return () => {
+      resizeObserver?.disconnect();
+      mutationObserver?.disconnect();
+    };
+  }, [enabled, svgRef]);
+
+  const breakpoint = enabled ? resolveResponsiveBreakpoint(options.breakpoints, size?.width ?? 0) : null;
+  const keep = breakpoint?.keep ?? options?.keep;
+
+  return useMemo(
+    () =>
+      enabled
+        ? {
+            size,
+            keep,
+            whiteKeyDensity: breakpoint?.whiteKeyDensity,
+            numWhiteKeys: breakpoint?.numWhiteKeys,
+          }
+        : null,
+    [enabled, size, keep, breakpoint?.whiteKeyDensity, breakpoint?.numWhiteKeys],
+  );
+}
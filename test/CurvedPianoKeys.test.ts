@@ -0,0 +1,36 @@
+import { createElement } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { describe, expect, it, vi } from 'vitest';
+
+import { CurvedPianoKeys, type CurvedPianoKeysProps } from '../src/CurvedPianoKeys';
+
+// Marks the environment as driven by act().
+import './renderHook';
+
+const U_TURN = 'M 40 240 L 500 240 A 20 20 0 0 1 500 280 L 40 280';
+
+describe('CurvedPianoKeys', () => {
+  it('reports each geometry warning once, not on every render', () => {
+    const onGeometryWarning = vi.fn();
+    // An inline stops array recomputes the layout on every render.
+    const props = (): CurvedPianoKeysProps => ({
+      d: U_TURN,
+      lowNote: 'C4',
+      highNote: 'B5',
+      thickness: [[0, 80]],
+      onGeometryWarning,
+    });
+    let renderer: ReactTestRenderer | null = null;
+    act(() => {
+      renderer = create(createElement(CurvedPianoKeys, props()));
+    });
+    act(() => renderer!.update(createElement(CurvedPianoKeys, props())));
+    expect(onGeometryWarning).toHaveBeenCalledTimes(1);
+    expect(onGeometryWarning.mock.calls[0][0]).toMatchObject({ type: 'overlap', midis: [71, 72] });
+
+    act(() => renderer!.update(createElement(CurvedPianoKeys, { ...props(), thickness: 30 })));
+    act(() => renderer!.update(createElement(CurvedPianoKeys, props())));
+    expect(onGeometryWarning).toHaveBeenCalledTimes(2);
+    act(() => renderer!.unmount());
+  });
+});
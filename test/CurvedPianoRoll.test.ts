@@ -0,0 +1,73 @@
+import { createElement } from 'react';
+import { act, create, type ReactTestInstance, type ReactTestRenderer } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+
+import { CurvedPianoRoll, getPianoRollViewBox, type CurvedPianoRollProps } from '../src/CurvedPianoRoll';
+import { computeKeyboardLayout, getLayoutViewBox } from '../src/keyboardLayout';
+
+// Marks the environment as driven by act().
+import './renderHook';
+
+// Half circle of radius 400 around (500, 500).
+const ARC = 'M 100 500 A 400 400 0 0 1 900 500';
+
+function renderRoll(props: Partial<CurvedPianoRollProps>) {
+  let renderer: ReactTestRenderer | null = null;
+  act(() => {
+    renderer = create(
+      createElement(CurvedPianoRoll, { d: ARC, lowNote: 'C4', highNote: 'E4', notes: [], time: 0, ...props }),
+    );
+  });
+  const polygons = renderer!.root.findAllByType('polygon');
+  const bars = polygons.filter((polygon) => polygon.props['data-midi'] != null);
+  return { lanes: polygons.filter((polygon) => !bars.includes(polygon)), bars };
+}
+
+/** Distances of a polygon's corners from the arc, rounded. */
+function distancesFromArc(polygon: ReactTestInstance) {
+  const points = String(polygon.props.points)
+    .split(' ')
+    .map((pair) => pair.split(',').map(Number));
+  return [...new Set(points.map(([x, y]) => Math.abs(Math.hypot(x - 500, y - 500) - 400).toFixed(1)))].sort();
+}
+
+describe('CurvedPianoRoll', () => {
+  it('draws a lane behind every key', () => {
+    const { lanes } = renderRoll({});
+    expect(lanes).toHaveLength(5);
+    // From the keys' back edge, 40 off the path, out to the default 320 beyond it.
+    lanes.forEach((lane) => expect(distancesFromArc(lane)).toEqual(['360.0', '40.0']));
+  });
+
+  it('moves notes down their lanes, with bar length following the note length', () => {
+    // 320 units for a 3-second lookahead.
+    const notes = [
+      { midi: 62, time: 1, duration: 0.75 },
+      { midi: 61, time: 1.5, duration: 3 },
+    ];
+    const { bars } = renderRoll({ notes, time: 0.25 });
+    expect(bars.map((bar) => bar.props['data-midi'])).toEqual([62, 61]);
+    expect(distancesFromArc(bars[0])).toEqual([(40 + 320 * 0.25).toFixed(1), (40 + 320 * 0.5).toFixed(1)]);
+    // Cut off at the end of the lane.
+    expect(distancesFromArc(bars[1])).toEqual([(40 + (320 * 1.25) / 3).toFixed(1), '360.0']);
+  });
+
+  it('leaves out notes that are over, outside the range or beyond the lookahead', () => {
+    const notes = [
+      { midi: 60, time: 0, duration: 1 },
+      { midi: 64, time: 5, duration: 1 },
+      { midi: 72, time: 2, duration: 1 },
+      { midi: 60, time: 1.5, duration: 1, color: 'red', velocity: 0 },
+    ];
+    const { bars } = renderRoll({ notes, time: 2, showLanes: false });
+    expect(bars).toHaveLength(1);
+    expect(bars[0].props).toMatchObject({ fill: 'red', fillOpacity: 0.4 });
+  });
+
+  it('fits a viewBox around the keys and the lanes', () => {
+    const layout = computeKeyboardLayout(ARC, { lowNote: 'C4', highNote: 'E4' });
+    const keys = getLayoutViewBox(layout, 0)!.split(' ').map(Number);
+    const roll = getPianoRollViewBox(ARC, { lowNote: 'C4', highNote: 'E4', padding: 0 })!.split(' ').map(Number);
+    expect(roll[2] * roll[3]).toBeGreaterThan(keys[2] * keys[3]);
+  });
+});
@@ -0,0 +1,387 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { normalizeActiveNotes } from '../src/activeNotes';
+import {
+  BLACK_FRACTIONS,
+  computeKeyboardLayout,
+  getKeyLabelFrame,
+  type BlackPitchClass,
+  type KeyboardLayout,
+} from '../src/keyboardLayout';
+import { KEY_PATTERNS, patternNoteToStep, patternStepName } from '../src/keyPatterns';
+import { circlePath } from '../src/pathGenerators';
+
+const LINE = 'M 40 240 L 1040 240';
+
+const midis = (layout: KeyboardLayout) => layout.keys.map((key) => key.midi);
+
+describe('computeKeyboardLayout', () => {
+  it('lays out a full piano from A0 to C8', () => {
+    const layout = computeKeyboardLayout(LINE, { numWhiteKeys: 52 });
+    expect(layout.keys).toHaveLength(88);
+    expect(layout.whiteKeys).toHaveLength(52);
+    expect(layout.keys[0]).toMatchObject({ midi: 21, note: 'A0', color: 'white' });
+    expect(layout.keys[87]).toMatchObject({ midi: 108, note: 'C8', color: 'white' });
+  });
+
+  it('tiles the path with the white keys in path order', () => {
+    const layout = computeKeyboardLayout(LINE, { numWhiteKeys: 14 });
+    expect(layout.whiteKeys[0].range[0]).toBeCloseTo(0);
+    expect(layout.whiteKeys[13].range[1]).toBeCloseTo(layout.totalLength);
+    layout.whiteKeys.slice(1).forEach((key, index) => {
+      expect(key.range[0]).toBeCloseTo(layout.whiteKeys[index].range[1]);
+      expect(key.midi).toBeGreaterThan(layout.whiteKeys[index].midi);
+    });
+  });
+
+  it('sorts keys by MIDI number and records where each one sits', () => {
+    const layout = computeKeyboardLayout(LINE, { lowNote: 'C4', highNote: 'C5' });
+    expect(midis(layout)).toEqual([...midis(layout)].sort((a, b) => a - b));
+    const c4 = layout.keys[0];
+    expect(c4).toMatchObject({ pitchClass: 'C', octave: 4, row: 0, subpath: 0 });
+    expect(c4.center.p.x).toBeCloseTo(40 + (c4.range[0] + c4.range[1]) / 2);
+    expect(c4.center.t.x).toBeCloseTo(1);
+  });
+});
+
+describe('lowNote and highNote', () => {
+  it('cover exactly the range between them', () => {
+    const layout = computeKeyboardLayout(LINE, { lowNote: 'C4', highNote: 'C5' });
+    expect(midis(layout)).toEqual(Array.from({ length: 13 }, (_, index) => 60 + index));
+    expect(layout.whiteKeys.map((key) => key.note)).toEqual(['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5']);
+  });
+
+  it('stop a derived range at MIDI 127 with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const layout = computeKeyboardLayout(LINE, { numWhiteKeys: 80 });
+    expect(midis(layout)[0]).toBe(21);
+    expect(Math.max(...midis(layout))).toBe(127);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('keep black keys at either end of the range', () => {
+    const layout = computeKeyboardLayout(LINE, { lowNote: 'C#4', highNote: 'A#4' });
+    expect(midis(layout)[0]).toBe(61);
+    expect(midis(layout)[midis(layout).length - 1]).toBe(70);
+    expect(layout.keys[0].color).toBe('black');
+  });
+});
+
+describe('getKeyLabelFrame', () => {
+  it('sits label text on the key, rotated to the path', () => {
+    const layout = computeKeyboardLayout('M 40 40 L 40 1040', { numWhiteKeys: 7 });
+    const frame = getKeyLabelFrame(layout.whiteKeys[0]);
+    expect(frame.angle).toBeCloseTo(90);
+    expect(frame.y).toBeCloseTo(40 + layout.whiteKeySpan / 2);
+  });
+
+  it('turns text half a turn where the path runs leftward', () => {
+    const layout = computeKeyboardLayout('M 1040 240 L 40 240', { numWhiteKeys: 7 });
+    layout.keys.forEach((key) => {
+      expect(getKeyLabelFrame(key).angle).toBeCloseTo(0);
+    });
+    const upward = computeKeyboardLayout('M 40 1040 L 40 40', { numWhiteKeys: 7 });
+    expect(getKeyLabelFrame(upward.keys[0]).angle).toBeCloseTo(90);
+  });
+});
+
+describe('keyShape', () => {
+  // Half circle of radius 400 around (500, 500).
+  const ARC = 'M 100 500 A 400 400 0 0 1 900 500';
+  const radii = (layout: KeyboardLayout) =>
+    layout.keys.map((key) => key.polygon.map((point) => Math.hypot(point.x - 500, point.y - 500)));
+
+  it('draws curved keys whose long edges stay on the offset circles', () => {
+    const curved = computeKeyboardLayout(ARC, { numWhiteKeys: 7, keyShape: 'curved' });
+    curved.keys.forEach((key, index) => {
+      expect(key.polygon.length).toBeGreaterThan(4);
+      const edges = new Set(radii(curved)[index].map((radius) => radius.toFixed(3)));
+      expect(edges.size).toBe(2);
+    });
+  });
+
+  it('draws straight keys as chords that cut inside the curve', () => {
+    const straight = computeKeyboardLayout(ARC, { numWhiteKeys: 7 });
+    const curved = computeKeyboardLayout(ARC, { numWhiteKeys: 7, keyShape: 'curved' });
+    straight.keys.forEach((key) => expect(key.polygon).toHaveLength(4));
+    expect(straight.keys.map((key) => key.midi)).toEqual(curved.keys.map((key) => key.midi));
+    // The middle of a chord sits closer to the centre than its corners.
+    const [a, b] = straight.whiteKeys[3].polygon;
+    const corner = Math.hypot(a.x - 500, a.y - 500);
+    expect(Math.hypot((a.x + b.x) / 2 - 500, (a.y + b.y) / 2 - 500)).toBeLessThan(corner - 1);
+  });
+});
+
+describe('overlapStrategy', () => {
+  // A U-turn of radius 20, tighter than half the default thickness of 80.
+  const U_TURN = 'M 40 240 L 500 240 A 20 20 0 0 1 500 280 L 40 280';
+  const range = { lowNote: 'C4', highNote: 'B5' } as const;
+
+  it('reports bends tighter than half the thickness', () => {
+    const layout = computeKeyboardLayout(U_TURN, range);
+    expect(layout.warnings).toHaveLength(1);
+    const [warning] = layout.warnings;
+    expect(warning).toMatchObject({ type: 'overlap', midis: [71, 72] });
+    expect(warning.minRadius).toBeCloseTo(20);
+    expect(warning.range[0]).toBeLessThan(460 + 20 * Math.PI);
+    expect(warning.range[1]).toBeGreaterThan(460);
+    expect(computeKeyboardLayout(U_TURN, { ...range, thickness: 30 }).warnings).toEqual([]);
+  });
+
+  it('shortens, fans or skips the keys in the bend', () => {
+    const none = computeKeyboardLayout(U_TURN, range);
+    const clamp = computeKeyboardLayout(U_TURN, { ...range, overlapStrategy: 'clamp' });
+    const fan = computeKeyboardLayout(U_TURN, { ...range, overlapStrategy: 'fan' });
+    const skip = computeKeyboardLayout(U_TURN, { ...range, overlapStrategy: 'skip' });
+    const key = (layout: KeyboardLayout, midi: number) => layout.keys.find((each) => each.midi === midi);
+
+    expect(key(clamp, 72)!.depthRange[1]).toBeLessThan(20);
+    expect(key(clamp, 72)!.depthRange[1]).toBeLessThan(key(none, 72)!.depthRange[1]);
+    expect(key(clamp, 69)!.depthRange).toEqual(key(none, 69)!.depthRange);
+    expect(key(fan, 72)!.polygon).not.toEqual(key(none, 72)!.polygon);
+    expect(key(fan, 69)!.polygon).toEqual(key(none, 69)!.polygon);
+    expect(midis(skip)).toEqual(midis(none).filter((midi) => midi !== 71 && midi !== 72));
+    expect(skip.warnings).toEqual(none.warnings);
+  });
+});
+
+describe('thickness profiles', () => {
+  const taper = [
+    [0, 40],
+    [1, 120],
+  ] as const;
+
+  it('tapers the keys along the path, edges included', () => {
+    const layout = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: taper });
+    const depths = layout.whiteKeys.map((key) => key.depthRange[1] - key.depthRange[0]);
+    depths.slice(1).forEach((depth, index) => expect(depth).toBeGreaterThan(depths[index]));
+    // 40 at the start of the path, growing by 80 over its 1000 units.
+    const [start, end] = layout.whiteKeys[0].polygon;
+    expect(start.y).toBeCloseTo(220);
+    expect(end.y).toBeCloseTo(240 - (40 + (80 * layout.whiteKeySpan) / 1000) / 2);
+  });
+
+  it('narrows black keys where the keyboard is thinner', () => {
+    const layout = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: taper });
+    const widths = layout.blackKeys.map((key) => key.range[1] - key.range[0]);
+    widths.slice(1).forEach((width, index) => expect(width).toBeGreaterThan(widths[index]));
+    const even = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: 120 });
+    const [first] = even.blackKeys;
+    expect(widths[0]).toBeLessThan((first.range[1] - first.range[0]) / 2);
+  });
+
+  it('accepts a function of position in place of stops', () => {
+    const stops = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: taper });
+    const curve = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: (position) => 40 + 80 * position });
+    curve.keys.forEach((key, index) => {
+      key.polygon.forEach((point, corner) => {
+        expect(point.y).toBeCloseTo(stops.keys[index].polygon[corner].y);
+      });
+    });
+  });
+
+  it('holds the end stops and falls back to the default without any', () => {
+    const held = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: [[0.5, 60]] });
+    held.whiteKeys.forEach((key) => expect(key.depthRange).toEqual([-30, 30]));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const empty = computeKeyboardLayout(LINE, { numWhiteKeys: 14, thickness: [] });
+    expect(empty.whiteKeys[0].depthRange).toEqual([-40, 40]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('thickness has no stops'));
+    warn.mockRestore();
+  });
+});
+
+describe('blackKeyLayout', () => {
+  // C4-C5 gives 125-unit white keys and 77.5-unit black keys.
+  const octave = { lowNote: 'C4', highNote: 'C5' } as const;
+  const blackWidth = 125 * 0.62;
+  const SEAMS: Record<BlackPitchClass, number> = { 'C#': 125, 'D#': 250, 'F#': 500, 'G#': 625, 'A#': 750 };
+  const centers = (layout: KeyboardLayout) =>
+    Object.fromEntries(layout.blackKeys.map((key) => [key.pitchClass, (key.range[0] + key.range[1]) / 2]));
+
+  it('centres black keys on the seams by default', () => {
+    const layout = computeKeyboardLayout(LINE, octave);
+    expect(centers(layout)).toEqual(SEAMS);
+  });
+
+  it('shifts them by BLACK_FRACTIONS when realistic', () => {
+    const layout = computeKeyboardLayout(LINE, { ...octave, blackKeyLayout: 'realistic' });
+    const realistic = centers(layout);
+    (Object.keys(BLACK_FRACTIONS) as BlackPitchClass[]).forEach((pitchClass) => {
+      expect(realistic[pitchClass]).toBeCloseTo(SEAMS[pitchClass] + (0.5 - BLACK_FRACTIONS[pitchClass]) * blackWidth);
+    });
+    expect(realistic['C#']).toBeLessThan(125);
+    expect(realistic['D#']).toBeGreaterThan(250);
+  });
+
+  it('takes per-pitch-class offsets and falls back to BLACK_FRACTIONS', () => {
+    const layout = computeKeyboardLayout(LINE, { ...octave, blackKeyLayout: { 'C#': 0.5, 'F#': 2 } });
+    const custom = centers(layout);
+    expect(custom['C#']).toBeCloseTo(125);
+    expect(custom['D#']).toBeCloseTo(250 + 0.1 * blackWidth);
+    // Offsets are clamped to 0-1: the key lies wholly over F.
+    expect(custom['F#']).toBeCloseTo(500 - blackWidth / 2);
+  });
+});
+
+describe('keyPattern', () => {
+  it('gives every key a unique id where the Jankó rows repeat notes', () => {
+    const janko = computeKeyboardLayout(LINE, { keyPattern: 'janko', numWhiteKeys: 14 });
+    expect(new Set(janko.keys.map((key) => key.id)).size).toBe(janko.keys.length);
+    expect(new Set(midis(janko)).size).toBeLessThan(janko.keys.length);
+  });
+
+  it('lays out 19-EDO with sharps and flats in separate rows', () => {
+    const layout = computeKeyboardLayout(LINE, { keyPattern: '19-edo', lowNote: 'C4', highNote: 'C5' });
+    expect(layout.keys).toHaveLength(20);
+    expect(layout.whiteKeys.map((key) => key.note)).toEqual(['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5']);
+    const rowOf = (note: string) => layout.keys.find((key) => key.note === note)?.row;
+    expect([rowOf('C#4'), rowOf('Db4'), rowOf('E#4'), rowOf('B#4')]).toEqual([1, 2, 1, 1]);
+    expect(layout.keys[0].midi).toBe(5 * 19);
+  });
+
+  it('names and finds steps in the pattern', () => {
+    const edo19 = KEY_PATTERNS['19-edo'];
+    expect(patternNoteToStep(edo19, 'Db4')).toBe(97);
+    expect(patternStepName(edo19, 97)).toBe('Db4');
+    expect(patternStepName(edo19, 94)).toBe('B#3');
+    expect(patternNoteToStep(edo19, 'H4')).toBeNull();
+    expect(patternNoteToStep(KEY_PATTERNS.piano, 'Bb4')).toBe(70);
+    expect(normalizeActiveNotes(['Db4', 'D4'], edo19)).toEqual(
+      new Map([
+        [97, {}],
+        [98, {}],
+      ]),
+    );
+  });
+
+  it('swaps colours on a harpsichord and keeps one row when chromatic', () => {
+    const harpsichord = computeKeyboardLayout(LINE, { keyPattern: 'harpsichord', lowNote: 'C4', highNote: 'C5' });
+    expect(harpsichord.whiteKeys.every((key) => key.color === 'black')).toBe(true);
+    expect(harpsichord.blackKeys.every((key) => key.color === 'white')).toBe(true);
+    const chromatic = computeKeyboardLayout(LINE, { keyPattern: 'chromatic', lowNote: 'C4', highNote: 'C5' });
+    expect(chromatic.whiteKeys).toHaveLength(13);
+    expect(chromatic.blackKeys).toEqual([]);
+    expect(chromatic.keys.find((key) => key.note === 'C#4')?.color).toBe('black');
+  });
+
+  it('falls back to the piano for an unknown pattern', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const layout = computeKeyboardLayout(LINE, { keyPattern: 'bagpipes' as 'piano', lowNote: 'C4', highNote: 'C5' });
+    expect(layout.pattern).toBe(KEY_PATTERNS.piano);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('keyPattern "bagpipes" was not found'));
+    warn.mockRestore();
+  });
+});
+
+describe('pixelsPerUnit and keepRange', () => {
+  it('measures the density in screen pixels', () => {
+    // 'md' asks for 15-pixel white keys; the line is 1000 units long.
+    expect(computeKeyboardLayout(LINE, { pixelsPerUnit: 0.5 }).whiteKeys).toHaveLength(33);
+    expect(computeKeyboardLayout(LINE, { pixelsPerUnit: 0.25 }).whiteKeys).toHaveLength(17);
+  });
+
+  it('rounds to whole octaves from the first note', () => {
+    const layout = computeKeyboardLayout(LINE, { pixelsPerUnit: 0.25, lowNote: 'C4', keepRange: 'octaves' });
+    expect(layout.whiteKeys).toHaveLength(14);
+    expect([layout.keys[0].note, layout.keys[layout.keys.length - 1].note]).toEqual(['C4', 'B5']);
+  });
+
+  it('grows both ways around the middle of the range', () => {
+    const layout = computeKeyboardLayout(LINE, {
+      pixelsPerUnit: 0.25,
+      lowNote: 'C4',
+      highNote: 'C5',
+      keepRange: 'center',
+    });
+    expect(layout.whiteKeys).toHaveLength(17);
+    expect(layout.whiteKeys[8].note).toBe('G4');
+    expect([layout.keys[0].note, layout.keys[layout.keys.length - 1].note]).toEqual(['F3', 'A5']);
+  });
+});
+
+describe('closed paths', () => {
+  const ring = circlePath({ radius: 300 });
+
+  it('go all the way round in whole octaves', () => {
+    const layout = computeKeyboardLayout(ring, { whiteKeyDensity: 'xl' });
+    expect(layout.closed).toBe(true);
+    expect(layout.whiteKeys.length % 7).toBe(0);
+    const starts = layout.whiteKeys.map((key) => key.range[0]).sort((a, b) => a - b);
+    expect(starts[0]).toBeCloseTo(0);
+    const ends = layout.whiteKeys.map((key) => key.range[1]);
+    expect(Math.max(...ends)).toBeCloseTo(layout.totalLength);
+  });
+
+  it('put the black key after the last white key across the start point', () => {
+    const fromC = computeKeyboardLayout(ring, { lowNote: 'C4', numWhiteKeys: 14 });
+    expect(fromC.blackKeys.some((key) => key.range[1] > fromC.totalLength)).toBe(false);
+    const fromA = computeKeyboardLayout(ring, { lowNote: 'A3', numWhiteKeys: 14 });
+    const straddling = fromA.blackKeys.filter((key) => key.range[1] > fromA.totalLength);
+    expect(straddling.map((key) => key.note)).toEqual(['G#5']);
+  });
+
+  it('rotate with startAt', () => {
+    const layout = computeKeyboardLayout(ring, { numWhiteKeys: 14, startAt: 0.5 });
+    expect(layout.whiteKeys[0].range[0]).toBeCloseTo(layout.totalLength / 2);
+  });
+});
+
+describe('compound paths', () => {
+  const TWO_LINES = 'M 40 100 L 1040 100 M 40 300 L 1040 300';
+
+  it('carry one keyboard across the subpaths without a key on the jump', () => {
+    const layout = computeKeyboardLayout(TWO_LINES, { numWhiteKeys: 14 });
+    expect(layout.whiteKeys.filter((key) => key.subpath === 0)).toHaveLength(7);
+    expect(layout.whiteKeys.filter((key) => key.subpath === 1)).toHaveLength(7);
+    expect(layout.whiteKeys[7].midi).toBeGreaterThan(layout.whiteKeys[6].midi);
+    expect(layout.whiteKeys[7].range[0]).toBeCloseTo(1000);
+  });
+
+  it('repeat the range on each subpath with unique ids when separate', () => {
+    const layout = computeKeyboardLayout(TWO_LINES, { subpaths: 'separate', numWhiteKeys: 14 });
+    const first = layout.keys.filter((key) => key.subpath === 0).map((key) => key.midi);
+    const second = layout.keys.filter((key) => key.subpath === 1).map((key) => key.midi);
+    expect(second).toEqual(first);
+    expect(new Set(layout.keys.map((key) => key.id)).size).toBe(layout.keys.length);
+  });
+});
+
+describe('align, trimming and direction', () => {
+  it('mirror the keys along the path with direction="reverse"', () => {
+    const forward = computeKeyboardLayout(LINE, { numWhiteKeys: 14 });
+    const reverse = computeKeyboardLayout(LINE, { numWhiteKeys: 14, direction: 'reverse' });
+    const { totalLength } = forward;
+    expect(midis(reverse)).toEqual(midis(forward));
+    forward.keys.forEach((key, index) => {
+      const mirrored = reverse.keys[index];
+      expect(mirrored.range[0]).toBeCloseTo(totalLength - key.range[1]);
+      expect(mirrored.range[1]).toBeCloseTo(totalLength - key.range[0]);
+    });
+    // `whiteKeys` stays in path order, so it now runs from the highest note.
+    expect(reverse.whiteKeys[0].midi).toBe(forward.whiteKeys[13].midi);
+  });
+
+  it('keep keys within pathStart and pathEnd', () => {
+    const layout = computeKeyboardLayout(LINE, { numWhiteKeys: 7, pathStart: 0.25, pathEnd: { length: 750 } });
+    expect(layout.whiteKeys[0].range[0]).toBeCloseTo(250);
+    expect(layout.whiteKeys[6].range[1]).toBeCloseTo(750);
+  });
+
+  it('place keys narrower than the path by align', () => {
+    const at = (align: 'start' | 'center' | 'end') =>
+      computeKeyboardLayout(LINE, { numWhiteKeys: 7, whiteKeySpan: 100, align }).whiteKeys[0].range[0];
+    expect(at('start')).toBeCloseTo(0);
+    expect(at('center')).toBeCloseTo(150);
+    expect(at('end')).toBeCloseTo(300);
+    const justified = computeKeyboardLayout(LINE, { numWhiteKeys: 7, whiteKeySpan: 100, align: 'justify' });
+    expect(justified.whiteKeySpan).toBeCloseTo(1000 / 7);
+  });
+
+  it('key a trimmed loop as an open path', () => {
+    const layout = computeKeyboardLayout(circlePath(), { numWhiteKeys: 10, pathEnd: 0.5 });
+    expect(layout.closed).toBe(false);
+    expect(Math.max(...layout.keys.map((key) => key.range[1]))).toBeLessThanOrEqual(layout.totalLength / 2 + 1e-6);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMidiFile, parseMidiFile, writeMidiFile } from '../src/midiFile';
+
+describe('writeMidiFile', () => {
+  it('round-trips notes through parseMidiFile', () => {
+    const file = createMidiFile(
+      [
+        { midi: 60, time: 0, duration: 0.5, velocity: 1 },
+        { midi: 64, time: 0.5, duration: 0.25, channel: 10 },
+        { midi: 127, time: 1, duration: 1 },
+      ],
+      { bpm: 90, name: 'Take 1' },
+    );
+    const parsed = parseMidiFile(writeMidiFile(file));
+    expect(parsed.format).toBe(0);
+    expect(parsed.tracks[0]).toMatchObject({ name: 'Take 1', channels: [1, 10], noteCount: 3 });
+    expect(parsed.tempos[0].bpm).toBeCloseTo(90);
+    expect(parsed.notes.map(({ midi, channel }) => [midi, channel])).toEqual([
+      [60, 1],
+      [64, 10],
+      [127, 1],
+    ]);
+    parsed.notes.forEach((note, index) => {
+      expect(note.time).toBeCloseTo(file.notes[index].time);
+      expect(note.duration).toBeCloseTo(file.notes[index].duration);
+      expect(note.velocity).toBeCloseTo(file.notes[index].velocity, 1);
+    });
+  });
+
+  it('throws on notes outside MIDI 0-127 instead of wrapping them', () => {
+    expect(() => writeMidiFile(createMidiFile([{ midi: 130, time: 0, duration: 1 }]))).toThrow(
+      'curved-piano-keys: cannot write note 130',
+    );
+    expect(() => writeMidiFile(createMidiFile([{ midi: -1, time: 0, duration: 1 }]))).toThrow(/note -1/);
+    expect(() => writeMidiFile(createMidiFile([{ midi: 60.5, time: 0, duration: 1 }]))).toThrow(/note 60.5/);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMidiFile } from '../src/midiFile';
+import { createMidiTransport, type TransportClock } from '../src/midiTransport';
+
+/** A clock that only moves when the test says so. */
+function createFakeClock() {
+  let time = 0;
+  let pending: (() => void) | null = null;
+  const clock: TransportClock = {
+    now: () => time,
+    requestTick: (callback) => {
+      pending = callback;
+      return () => {
+        if (pending === callback) {
+          pending = null;
+        }
+      };
+    },
+  };
+  const advance = (seconds: number) => {
+    time += seconds;
+    const callback = pending;
+    pending = null;
+    callback?.();
+  };
+  return { clock, advance };
+}
+
+function record(file = createMidiFile([])) {
+  const { clock, advance } = createFakeClock();
+  const events: string[] = [];
+  const transport = createMidiTransport(file, {
+    clock,
+    onNoteOn: (note) => events.push(`on${note.midi}@${note.time}`),
+    onNoteOff: (note) => events.push(`off${note.midi}@${note.time}`),
+  });
+  return { transport, events, advance };
+}
+
+describe('createMidiTransport', () => {
+  it('starts and ends notes as the clock advances', () => {
+    const { transport, events, advance } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 0.5 },
+        { midi: 64, time: 0.25, duration: 0.5 },
+      ]),
+    );
+    transport.play();
+    expect(events).toEqual(['on60@0']);
+    expect([...transport.activeNotes.keys()]).toEqual([60]);
+
+    advance(0.3);
+    expect(events).toEqual(['on60@0', 'on64@0.25']);
+    expect([...transport.activeNotes.keys()].sort()).toEqual([60, 64]);
+
+    advance(0.3);
+    expect(events).toEqual(['on60@0', 'on64@0.25', 'off60@0']);
+    expect(transport.position).toBeCloseTo(0.6);
+  });
+
+  it('ends a repeated pitch before starting it again', () => {
+    const { transport, events, advance } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 0.6 },
+        { midi: 60, time: 0.6, duration: 0.6 },
+      ]),
+    );
+    transport.play();
+    advance(0.6);
+    expect(events).toEqual(['on60@0', 'off60@0', 'on60@0.6']);
+    expect(transport.activeNotes.has(60)).toBe(true);
+  });
+
+  it('keeps time order when one tick spans several notes', () => {
+    const { transport, events, advance } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 0.2 },
+        { midi: 60, time: 0.2, duration: 0.2 },
+        { midi: 62, time: 0.5, duration: 1 },
+      ]),
+    );
+    transport.play();
+    advance(0.7);
+    expect(events).toEqual(['on60@0', 'off60@0', 'on60@0.2', 'off60@0.2', 'on62@0.5']);
+  });
+
+  it('chases notes held across the seek point while playing', () => {
+    const { transport, events } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 2 },
+        { midi: 64, time: 1.5, duration: 0.2 },
+      ]),
+    );
+    transport.play();
+    transport.seek(1);
+    expect(transport.position).toBe(1);
+    expect(events).toEqual(['on60@0', 'off60@0', 'on60@0']);
+    expect([...transport.activeNotes.keys()]).toEqual([60]);
+  });
+
+  it('shows the notes at the playhead when seeking while paused', () => {
+    const { transport, events } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 1 },
+        { midi: 67, time: 2, duration: 1 },
+      ]),
+    );
+    transport.seek(2.5);
+    expect(events).toEqual([]);
+    expect([...transport.activeNotes.keys()]).toEqual([67]);
+    transport.seek(99);
+    expect(transport.position).toBe(transport.duration);
+  });
+
+  it('scales file time by the tempo from the moment it changes', () => {
+    const { transport, advance } = record(createMidiFile([{ midi: 60, time: 0, duration: 10 }]));
+    transport.play();
+    advance(1);
+    expect(transport.position).toBeCloseTo(1);
+
+    transport.setTempoScale(2);
+    advance(1);
+    expect(transport.position).toBeCloseTo(3);
+
+    transport.setTempoScale(0.5);
+    advance(2);
+    expect(transport.position).toBeCloseTo(4);
+    expect(transport.tempoScale).toBe(0.5);
+  });
+
+  it('stops at the end, or starts over with loop', () => {
+    const file = createMidiFile([{ midi: 60, time: 0, duration: 1 }]);
+    const ended = record(file);
+    ended.transport.play();
+    ended.advance(1.5);
+    expect(ended.transport.playing).toBe(false);
+    expect(ended.events).toEqual(['on60@0', 'off60@0']);
+
+    const looped = record(file);
+    looped.transport.setLoop(true);
+    looped.transport.play();
+    looped.advance(1.5);
+    expect(looped.transport.playing).toBe(true);
+    expect(looped.transport.position).toBeCloseTo(0.5);
+    expect(looped.events).toEqual(['on60@0', 'off60@0', 'on60@0']);
+  });
+
+  it('carries the time past the end into the next loop', () => {
+    const { transport, events, advance } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 0.25 },
+        { midi: 64, time: 0.5, duration: 0.5 },
+      ]),
+    );
+    transport.setLoop(true);
+    transport.play();
+    advance(1.3);
+    expect(transport.position).toBeCloseTo(0.3);
+    expect(events).toEqual(['on60@0', 'off60@0', 'on64@0.5', 'off64@0.5', 'on60@0', 'off60@0']);
+
+    // Two and a half passes in one tick still land half way through.
+    advance(2.2);
+    expect(transport.position).toBeCloseTo(0.5);
+    advance(0.5);
+    expect(transport.position).toBeCloseTo(0);
+    expect(transport.playing).toBe(true);
+  });
+
+  it('releases and skips notes on muted channels', () => {
+    const { transport, events, advance } = record(
+      createMidiFile([
+        { midi: 60, time: 0, duration: 1, channel: 1 },
+        { midi: 48, time: 0, duration: 1, channel: 2 },
+        { midi: 50, time: 0.5, duration: 1, channel: 2 },
+      ]),
+    );
+    transport.play();
+    transport.setChannelMuted(2, true);
+    advance(0.6);
+    expect(events).toEqual(['on48@0', 'on60@0', 'off48@0']);
+    expect([...transport.activeNotes.keys()]).toEqual([60]);
+  });
+});
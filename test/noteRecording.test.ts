@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { notesToEvents, quantizeNotes } from '../src/noteRecording';
+
+describe('quantizeNotes', () => {
+  // Sixteenths at 120 bpm.
+  const grid = 0.125;
+
+  it('snaps starts and ends to the grid, keeping at least one step', () => {
+    const notes = quantizeNotes(
+      [
+        { midi: 64, time: 0.13, duration: 0.2, velocity: 1 },
+        { midi: 60, time: 0.01, duration: 0.01, velocity: 1 },
+      ],
+      { grid },
+    );
+    expect(notes.map(({ midi, time, duration }) => [midi, time, duration])).toEqual([
+      [60, 0, 0.125],
+      [64, 0.125, 0.25],
+    ]);
+  });
+
+  it('moves part of the way with a lower strength and can keep durations', () => {
+    const [half] = quantizeNotes([{ midi: 60, time: 0.15, duration: 0.2, velocity: 1 }], { grid, strength: 0.5 });
+    expect(half.time).toBeCloseTo(0.1375);
+    const [kept] = quantizeNotes([{ midi: 60, time: 0.15, duration: 0.2, velocity: 1 }], { grid, durations: false });
+    expect(kept).toMatchObject({ time: 0.125, duration: 0.2 });
+  });
+
+  it('leaves the notes alone on a grid that is not positive', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const notes = [{ midi: 60, time: 0.15, duration: 0.2, velocity: 1 }];
+    expect(quantizeNotes(notes, { grid: 0 })).toEqual(notes);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('quantize grid must be positive'));
+    warn.mockRestore();
+  });
+});
+
+describe('notesToEvents', () => {
+  it('puts note-offs before note-ons on the same instant', () => {
+    const events = notesToEvents([
+      { midi: 60, time: 0.5, duration: 0.5, velocity: 0.7 },
+      { midi: 60, time: 0, duration: 0.5, velocity: 0.5, channel: 2 },
+    ]);
+    expect(events.map(({ type, time, channel }) => `${type}@${time}/${channel}`)).toEqual([
+      'noteon@0/2',
+      'noteoff@0.5/2',
+      'noteon@0.5/1',
+      'noteoff@1/1',
+    ]);
+    expect(events[1].velocity).toBe(0.5);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  arcPath,
+  archimedeanSpiralPath,
+  circlePath,
+  DEFAULT_PATH_BOX,
+  logSpiralPath,
+  parametricPath,
+  sCurvePath,
+  sinePath,
+} from '../src/pathGenerators';
+import { createPathGeometry, type Point } from '../src/pathGeometry';
+
+function samplePoints(d: string, count = 200): Point[] {
+  const path = createPathGeometry(d);
+  return Array.from({ length: count + 1 }, (_, index) => path.sampleAt((path.totalLength * index) / count).p);
+}
+
+function bounds(points: Point[]) {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+describe('path generators', () => {
+  it('closes a circle and fits it into the box', () => {
+    const path = createPathGeometry(circlePath());
+    expect(path.closed).toBe(true);
+    // The default box is 400 high, so the circle's radius becomes 200 around its centre.
+    expect(path.totalLength).toBeCloseTo(2 * Math.PI * 200, 0);
+    samplePoints(circlePath()).forEach((point) => {
+      expect(Math.hypot(point.x - 540, point.y - 240)).toBeCloseTo(200, 0);
+    });
+    // Starts at the bottom and runs clockwise on screen, toward the left.
+    expect(path.sampleAt(0).p).toEqual({ x: 540, y: 440 });
+    expect(path.tangentAt(0).x).toBeCloseTo(-1);
+  });
+
+  it('keeps every generated curve inside the box', () => {
+    const box = DEFAULT_PATH_BOX;
+    for (const d of [arcPath(), sinePath(), archimedeanSpiralPath(), logSpiralPath(), sCurvePath()]) {
+      const { minX, maxX, minY, maxY } = bounds(samplePoints(d));
+      expect(minX).toBeGreaterThanOrEqual(box.x - 0.5);
+      expect(maxX).toBeLessThanOrEqual(box.x + box.width + 0.5);
+      expect(minY).toBeGreaterThanOrEqual(box.y - 0.5);
+      expect(maxY).toBeLessThanOrEqual(box.y + box.height + 0.5);
+      // `'contain'` fills the box one way or the other.
+      expect(Math.max((maxX - minX) / box.width, (maxY - minY) / box.height)).toBeCloseTo(1, 2);
+    }
+  });
+
+  it('draws an arc bulging upward, symmetric about its top', () => {
+    const points = samplePoints(arcPath({ sweep: 120 }));
+    const first = points[0];
+    const last = points[points.length - 1];
+    expect(first.y).toBeCloseTo(last.y, 1);
+    expect(first.x).toBeCloseTo(40, 1);
+    expect(last.x).toBeCloseTo(1040, 1);
+    const top = points.reduce((highest, point) => (point.y < highest.y ? point : highest));
+    expect(top.x).toBeCloseTo(540, 0);
+  });
+
+  it('keeps its own units with fit none', () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    const points = samplePoints(arcPath({ radius: 500, sweep: 120, fit: 'none', box }));
+    const { minX, maxX, minY, maxY } = bounds(points);
+    expect([minX, minY]).toEqual([expect.closeTo(0, 1), expect.closeTo(0, 1)]);
+    expect(maxX).toBeCloseTo(1000 * Math.sin(60 * (Math.PI / 180)), 0);
+    expect(maxY).toBeCloseTo(250, 0);
+  });
+
+  it('starts a sine wave on a peak with a quarter-turn phase', () => {
+    const box = { x: 0, y: 0, width: 1000, height: 240 };
+    const [start] = samplePoints(sinePath({ phase: 90, fit: 'none', box }));
+    expect(start).toEqual({ x: 0, y: 0 });
+    const [flat] = samplePoints(sinePath({ fit: 'none', box }));
+    expect(flat.y).toBeCloseTo(120);
+  });
+
+  it('follows any parametric curve with cubic segments', () => {
+    const d = parametricPath(
+      { point: (t) => ({ x: 300 * t, y: 400 * t }), derivative: () => ({ x: 300, y: 400 }) },
+      { fit: 'none', box: { x: 10, y: 20, width: 0, height: 0 }, segments: 3 },
+    );
+    expect(d.match(/C/g)).toHaveLength(3);
+    const path = createPathGeometry(d);
+    expect(path.totalLength).toBeCloseTo(500);
+    expect(path.sampleAt(250).p).toEqual({ x: expect.closeTo(160), y: expect.closeTo(220) });
+  });
+});
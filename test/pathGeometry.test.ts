@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+
+import { createPathGeometry, parsePathData, type Point } from '../src/pathGeometry';
+
+const expectPoint = (actual: Point, expected: Point, digits = 6) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+};
+
+describe('parsePathData', () => {
+  it('normalises relative and shorthand commands to absolute ones', () => {
+    expect(parsePathData('M 10 10 h 20 v 5 H 0 V 0 z')).toEqual([
+      { type: 'M', x: 10, y: 10 },
+      { type: 'L', x: 30, y: 10 },
+      { type: 'L', x: 30, y: 15 },
+      { type: 'L', x: 0, y: 15 },
+      { type: 'L', x: 0, y: 0 },
+      { type: 'Z' },
+    ]);
+  });
+
+  it('repeats the last command for extra coordinates, as linetos after a moveto', () => {
+    expect(parsePathData('m 1 2 3 4 5 6')).toEqual([
+      { type: 'M', x: 1, y: 2 },
+      { type: 'L', x: 4, y: 6 },
+      { type: 'L', x: 9, y: 12 },
+    ]);
+    expect(parsePathData('M0,0L1,1,2,2')).toHaveLength(3);
+    expect(parsePathData('M0 0Q1 1 2 0 3 -1 4 0').filter((command) => command.type === 'Q')).toHaveLength(2);
+  });
+
+  it('reads compact numbers', () => {
+    expect(parsePathData('M-1.5.5L1e1-2')).toEqual([
+      { type: 'M', x: -1.5, y: 0.5 },
+      { type: 'L', x: 10, y: -2 },
+    ]);
+  });
+
+  it('reflects control points for S and T', () => {
+    const [, first, second] = parsePathData('M 0 0 C 0 10 20 10 20 0 S 40 -10 40 0');
+    expect(first).toMatchObject({ type: 'C', x2: 20, y2: 10 });
+    expect(second).toEqual({ type: 'C', x1: 20, y1: -10, x2: 40, y2: -10, x: 40, y: 0 });
+
+    const [, , smooth] = parsePathData('M 0 0 Q 10 10 20 0 T 40 0');
+    expect(smooth).toEqual({ type: 'Q', x1: 30, y1: -10, x: 40, y: 0 });
+  });
+
+  it('reads arc flags written without separators', () => {
+    expect(parsePathData('M0 0a5,5 0 1110,0')).toEqual([
+      { type: 'M', x: 0, y: 0 },
+      { type: 'A', rx: 5, ry: 5, rotation: 0, largeArc: true, sweep: true, x: 10, y: 0 },
+    ]);
+    expect(parsePathData('M 0 0 A 5 5 30 0 1 10 0')[1]).toMatchObject({ rotation: 30, largeArc: false, sweep: true });
+  });
+
+  it('keeps everything before the first malformed command', () => {
+    expect(parsePathData('M 0 0 L 10 0 L 5')).toEqual([
+      { type: 'M', x: 0, y: 0 },
+      { type: 'L', x: 10, y: 0 },
+    ]);
+    expect(parsePathData('M 0 0 L 10 0 X 5 5 L 0 0')).toHaveLength(2);
+  });
+});
+
+describe('createPathGeometry', () => {
+  it('measures lines and samples them by distance', () => {
+    const geometry = createPathGeometry('M 0 0 L 30 40 L 30 0');
+    expect(geometry.totalLength).toBeCloseTo(90);
+    expectPoint(geometry.pointAt(25), { x: 15, y: 20 });
+    expectPoint(geometry.tangentAt(25), { x: 0.6, y: 0.8 });
+    expectPoint(geometry.pointAt(70), { x: 30, y: 20 });
+    const { n } = geometry.sampleAt(70);
+    expectPoint(n, { x: 1, y: 0 });
+  });
+
+  it('measures a circular arc and its tangents', () => {
+    // Half circle of radius 50 from (0, 0) to (100, 0), bulging upward.
+    const geometry = createPathGeometry('M 0 0 A 50 50 0 0 1 100 0');
+    expect(geometry.totalLength).toBeCloseTo(50 * Math.PI, 4);
+    expectPoint(geometry.pointAt(25 * Math.PI), { x: 50, y: -50 }, 4);
+    expectPoint(geometry.tangentAt(0), { x: 0, y: -1 }, 4);
+    expectPoint(geometry.tangentAt(25 * Math.PI), { x: 1, y: 0 }, 4);
+  });
+
+  it('scales up arcs whose radii are too small to reach the end point', () => {
+    const geometry = createPathGeometry('M 0 0 A 1 1 0 0 1 100 0');
+    expect(geometry.totalLength).toBeCloseTo(50 * Math.PI, 4);
+  });
+
+  it('measures cubics by arc length', () => {
+    // The usual cubic approximation of a quarter circle of radius 100.
+    const k = (4 / 3) * Math.tan(Math.PI / 8) * 100;
+    const geometry = createPathGeometry(`M 100 0 C 100 ${k} ${k} 100 0 100`);
+    expect(geometry.totalLength).toBeCloseTo(50 * Math.PI, 1);
+    expectPoint(geometry.tangentAt(0), { x: 0, y: 1 });
+    expectPoint(geometry.tangentAt(geometry.totalLength), { x: -1, y: 0 });
+    const middle = geometry.pointAt(geometry.totalLength / 2);
+    expectPoint(middle, { x: 100 * Math.SQRT1_2, y: 100 * Math.SQRT1_2 }, 1);
+  });
+
+  it('takes the tangent of a degenerate cubic from its curve, not its zero derivative', () => {
+    const geometry = createPathGeometry('M 0 0 C 0 0 10 10 10 20');
+    const tangent = geometry.tangentAt(0);
+    expect(Math.hypot(tangent.x, tangent.y)).toBeCloseTo(1);
+    expect(tangent.x).toBeGreaterThan(0);
+  });
+
+  it('detects closed loops and wraps offsets around them', () => {
+    const square = createPathGeometry('M 0 0 H 10 V 10 H 0 Z');
+    expect(square.closed).toBe(true);
+    expect(square.totalLength).toBeCloseTo(40);
+    expectPoint(square.pointAt(-5), square.pointAt(35));
+    expect(createPathGeometry('M 0 0 H 10 V 10').closed).toBe(false);
+  });
+
+  it('lists each subpath measured from its own start', () => {
+    const geometry = createPathGeometry('M 0 0 H 10 M 0 20 H 30');
+    expect(geometry.totalLength).toBeCloseTo(40);
+    expect(geometry.subpaths.map(({ offset, geometry: part }) => [offset, part.totalLength])).toEqual([
+      [0, 10],
+      [10, 30],
+    ]);
+    expectPoint(geometry.subpaths[1].geometry.pointAt(5), { x: 5, y: 20 });
+  });
+});
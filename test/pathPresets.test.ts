@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { CurvedPianoKeysProps } from '../src/CurvedPianoKeys';
+import { getPathPreset, getPathPresets, PIANO_PATH_PRESETS, registerPathPreset } from '../src/pathPresets';
+import { renderCurvedPianoKeysToSVG } from '../src/renderToSVG';
+
+describe('path presets', () => {
+  it('finds built-in presets by id', () => {
+    expect(getPathPreset('straight')?.d).toBe('M 40 240 L 1040 240');
+    expect(getPathPreset('missing')).toBeUndefined();
+  });
+
+  it('accepts registered ids in pathPreset without declaring them', () => {
+    const hill = registerPathPreset({ id: 'test-hill', d: 'M 40 240 L 1040 240' });
+    expect(hill).toEqual({ id: 'test-hill', name: 'test-hill', description: '', d: 'M 40 240 L 1040 240' });
+    expect(getPathPreset('test-hill')).toBe(hill);
+    expect(getPathPresets().slice(-1)).toEqual([hill]);
+
+    const props: CurvedPianoKeysProps = { pathPreset: 'test-hill', lowNote: 'C4', highNote: 'C5' };
+    const straight = renderCurvedPianoKeysToSVG({ ...props, pathPreset: 'straight' });
+    expect(renderCurvedPianoKeysToSVG(props)).toBe(straight);
+  });
+
+  it('lets a registered preset replace a built-in one, with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const original = PIANO_PATH_PRESETS.find((preset) => preset.id === 'wave')!;
+    const replaced = registerPathPreset({ ...original, d: 'M 0 0 L 100 0' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('replaces the built-in preset'));
+    expect(getPathPreset('wave')).toBe(replaced);
+    const presets = getPathPresets();
+    expect(presets.filter((preset) => preset.id === 'wave')).toEqual([replaced]);
+    expect(presets.findIndex((preset) => preset.id === 'wave')).toBe(PIANO_PATH_PRESETS.indexOf(original));
+    registerPathPreset(original);
+    warn.mockRestore();
+  });
+});
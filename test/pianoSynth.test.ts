@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createPianoSynth } from '../src/pianoSynth';
+
+type Ramp = [string, number, number];
+
+/** Records what the synth schedules on each parameter instead of making sound. */
+function createParam(value = 0) {
+  const events: Ramp[] = [];
+  return {
+    value,
+    events,
+    setValueAtTime: (level: number, time: number) => events.push(['set', level, time]),
+    linearRampToValueAtTime: (level: number, time: number) => events.push(['ramp', level, time]),
+    cancelScheduledValues: (time: number) => events.push(['cancel', 0, time]),
+  };
+}
+
+function createNode() {
+  return { connect: vi.fn(), disconnect: vi.fn() };
+}
+
+function createStubContext() {
+  const oscillators: Array<ReturnType<typeof createOscillator>> = [];
+  const bufferSources: Array<ReturnType<typeof createBufferSource>> = [];
+  const gains: Array<ReturnType<typeof createGain>> = [];
+  function createOscillator() {
+    return { ...createNode(), type: 'sine', frequency: createParam(), setPeriodicWave: vi.fn(), start: vi.fn(), stop: vi.fn() };
+  }
+  function createBufferSource() {
+    return { ...createNode(), buffer: null as unknown, playbackRate: createParam(1), start: vi.fn(), stop: vi.fn() };
+  }
+  function createGain() {
+    return { ...createNode(), gain: createParam(1) };
+  }
+  const context = {
+    currentTime: 0,
+    destination: createNode(),
+    createOscillator: () => {
+      const oscillator = createOscillator();
+      oscillators.push(oscillator);
+      return oscillator;
+    },
+    createBufferSource: () => {
+      const source = createBufferSource();
+      bufferSources.push(source);
+      return source;
+    },
+    createGain: () => {
+      const gain = createGain();
+      gains.push(gain);
+      return gain;
+    },
+    createPeriodicWave: () => ({}),
+  };
+  return { context, audioContext: context as unknown as BaseAudioContext, oscillators, bufferSources, gains };
+}
+
+describe('createPianoSynth', () => {
+  it('tunes each note from A4', () => {
+    const stub = createStubContext();
+    const synth = createPianoSynth(stub.audioContext, { a4Frequency: 442 });
+    synth.noteOn('A4');
+    synth.noteOn(57);
+    expect(stub.oscillators.map((oscillator) => oscillator.frequency.value)).toEqual([442, 221]);
+    expect(stub.oscillators[0].setPeriodicWave).toHaveBeenCalled();
+  });
+
+  it('uses a plain oscillator type when given one', () => {
+    const stub = createStubContext();
+    createPianoSynth(stub.audioContext, { voice: 'square' }).noteOn('C4');
+    expect(stub.oscillators[0].type).toBe('square');
+    expect(stub.oscillators[0].setPeriodicWave).not.toHaveBeenCalled();
+  });
+
+  it('schedules the attack, decay and release of the envelope', () => {
+    const stub = createStubContext();
+    const synth = createPianoSynth(stub.audioContext, {
+      envelope: { attack: 0.1, decay: 0.2, sustain: 0.5, release: 0.4 },
+    });
+    synth.noteOn('C4', 0.8, 1);
+    // The first gain is the master output; the second belongs to the voice.
+    const { events } = stub.gains[1].gain;
+    expect(events).toEqual([
+      ['set', 0, 1],
+      ['ramp', 0.8, 1.1],
+      ['ramp', 0.4, 1.3],
+    ]);
+
+    synth.noteOff('C4', 2);
+    expect(events.slice(3)).toEqual([
+      ['cancel', 0, 2],
+      ['set', 0.4, 2],
+      ['ramp', 0, 2.4],
+    ]);
+    expect(stub.oscillators[0].stop).toHaveBeenCalledWith(2.42);
+  });
+
+  it('counts voices until their release has finished', () => {
+    const stub = createStubContext();
+    const synth = createPianoSynth(stub.audioContext, { envelope: { release: 0.5 } });
+    synth.noteOn('C4');
+    synth.noteOn('E4');
+    expect(synth.activeVoices).toBe(2);
+
+    synth.allNotesOff();
+    expect(synth.activeVoices).toBe(2);
+    stub.context.currentTime = 0.6;
+    expect(synth.activeVoices).toBe(0);
+  });
+
+  it('steals the oldest voice beyond the polyphony limit', () => {
+    const stub = createStubContext();
+    const synth = createPianoSynth(stub.audioContext, { polyphony: 2 });
+    synth.noteOn('C4');
+    synth.noteOn('D4');
+    synth.noteOn('E4');
+    expect(synth.activeVoices).toBe(2);
+    expect(stub.oscillators[0].stop).toHaveBeenCalled();
+    expect(stub.oscillators[1].stop).not.toHaveBeenCalled();
+  });
+
+  it('plays the nearest sample, pitched to the note', () => {
+    const stub = createStubContext();
+    const low = {} as AudioBuffer;
+    const high = {} as AudioBuffer;
+    const synth = createPianoSynth(stub.audioContext, { samples: { C4: low, C5: high } });
+    synth.noteOn('D4');
+    synth.noteOn('B4');
+    expect(stub.oscillators).toHaveLength(0);
+    expect(stub.bufferSources.map((source) => source.buffer)).toEqual([low, high]);
+    expect(stub.bufferSources[0].playbackRate.value).toBeCloseTo(2 ** (2 / 12));
+    expect(stub.bufferSources[1].playbackRate.value).toBeCloseTo(2 ** (-1 / 12));
+  });
+
+  it('sets the master volume and warns about unknown notes', () => {
+    const stub = createStubContext();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const synth = createPianoSynth(stub.audioContext, { volume: 0.25 });
+    expect(synth.output.gain.value).toBe(0.25);
+
+    synth.noteOn('H9');
+    expect(stub.oscillators).toHaveLength(0);
+    expect(warn).toHaveBeenCalledWith('curved-piano-keys: "H9" is not a valid note for the synth.');
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,29 @@
+import { createElement } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+export type RenderedHook<Props, Result> = {
+  /** The hook's return value from the latest render. */
+  result: { current: Result };
+  rerender: (props: Props) => void;
+  unmount: () => void;
+};
+
+/** Renders `hook` in a component with no DOM, so hooks can be driven from tests. */
+export function renderHook<Props, Result>(hook: (props: Props) => Result, props: Props): RenderedHook<Props, Result> {
+  const result = { current: undefined as Result };
+  const Probe = (probeProps: { hookProps: Props }) => {
+    result.current = hook(probeProps.hookProps);
+    return null;
+  };
+  let renderer: ReactTestRenderer | null = null;
+  act(() => {
+    renderer = create(createElement(Probe, { hookProps: props }));
+  });
+  return {
+    result,
+    rerender: (next) => act(() => renderer?.update(createElement(Probe, { hookProps: next }))),
+    unmount: () => act(() => renderer?.unmount()),
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { renderCurvedPianoKeysToSVG } from '../src/renderToSVG';
+
+const LINE = 'M 40 240 L 1040 240';
+
+const notesIn = (svg: string) => Array.from(svg.matchAll(/data-note="([^"]+)"/g), (match) => match[1]);
+
+describe('renderCurvedPianoKeysToSVG', () => {
+  it('renders a standalone document sized from its viewBox', () => {
+    const svg = renderCurvedPianoKeysToSVG({ d: LINE, lowNote: 'C4', highNote: 'E4', fitViewBox: true });
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" viewBox="32 192 1016 96" width="1016" height="96"')).toBe(
+      true,
+    );
+    expect(svg.endsWith('</svg>')).toBe(true);
+  });
+
+  it('draws white keys first so black keys sit on top', () => {
+    const svg = renderCurvedPianoKeysToSVG({ d: LINE, lowNote: 'C4', highNote: 'E4' });
+    expect(notesIn(svg)).toEqual(['C4', 'D4', 'E4', 'C#4', 'D#4']);
+    expect(svg.match(/<polygon /g)).toHaveLength(5);
+  });
+
+  it('highlights active notes given by name', () => {
+    const svg = renderCurvedPianoKeysToSVG({ d: LINE, lowNote: 'C4', highNote: 'E4', activeNotes: ['D4'] });
+    const d4 = /<g data-note="D4">(.*?)<\/g>/.exec(svg)?.[1] ?? '';
+    expect(d4).toContain('fill="#93c5fd"');
+    expect(svg.match(/#93c5fd/g)).toHaveLength(1);
+  });
+
+  it('writes labels and escapes attribute values', () => {
+    const svg = renderCurvedPianoKeysToSVG({
+      d: LINE,
+      lowNote: 'C4',
+      highNote: 'E4',
+      labels: true,
+      className: 'keys "demo" <a>',
+    });
+    expect(svg).toContain('>C4</text>');
+    expect(svg).toContain('class="keys &quot;demo&quot; &lt;a&gt;"');
+  });
+
+  it('gives the same output on every call', () => {
+    const props = { pathPreset: 'arc' as const, numWhiteKeys: 21, keyShape: 'curved' as const };
+    expect(renderCurvedPianoKeysToSVG(props)).toBe(renderCurvedPianoKeysToSVG(props));
+  });
+});
@@ -0,0 +1,103 @@
+import type { FocusEvent as ReactFocusEvent, KeyboardEvent as ReactKeyboardEvent, RefObject } from 'react';
+import { act } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+
+import { computeKeyboardLayout } from '../src/keyboardLayout';
+import { useKeyFocus } from '../src/useKeyFocus';
+import type { NoteEvent } from '../src/usePointerNotes';
+import { renderHook } from './renderHook';
+
+// C4-E4: along the path the keys run C4, C#4, D4, D#4, E4.
+const layout = computeKeyboardLayout('M 40 240 L 1040 240', { lowNote: 'C4', highNote: 'E4' });
+const idOf = (note: string) => layout.keys.find((key) => key.note === note)!.id;
+
+/** Stands in for a key's `<g data-key-id>`; focusing it is recorded. */
+function keyElement(id: string, focused: string[]) {
+  const element = {
+    closest: () => element,
+    getAttribute: (name: string) => (name === 'data-key-id' ? id : null),
+    matches: () => true,
+    focus: () => focused.push(id),
+  };
+  return element;
+}
+
+function renderKeyFocus(enabled = true) {
+  const focused: string[] = [];
+  const events: string[] = [];
+  const svg = {
+    querySelector: (selector: string) => keyElement(/data-key-id="([^"]+)"/.exec(selector)![1], focused),
+  };
+  const svgRef = { current: svg } as unknown as RefObject<SVGSVGElement>;
+  const handlers = {
+    onNoteOn: (event: NoteEvent) => events.push(`on ${event.note}`),
+    onNoteOff: (event: NoteEvent) => events.push(`off ${event.note}`),
+  };
+  const hook = renderHook(() => useKeyFocus(svgRef, layout, enabled, handlers), null);
+
+  const keyEvent = (type: 'onKeyDown' | 'onKeyUp', note: string, key: string, repeat = false) => {
+    let prevented = false;
+    const event = {
+      key,
+      repeat,
+      target: keyElement(idOf(note), focused),
+      preventDefault: () => {
+        prevented = true;
+      },
+    } as unknown as ReactKeyboardEvent<SVGSVGElement>;
+    act(() => hook.result.current!.handlers[type](event));
+    return prevented;
+  };
+  const focus = (note: string) => {
+    const event = { target: keyElement(idOf(note), focused) } as unknown as ReactFocusEvent<SVGSVGElement>;
+    act(() => hook.result.current!.handlers.onFocus(event));
+  };
+  const blur = (note: string) => {
+    const event = { target: keyElement(idOf(note), focused), relatedTarget: null };
+    act(() => hook.result.current!.handlers.onBlur(event as unknown as ReactFocusEvent<SVGSVGElement>));
+  };
+  return { hook, focused, events, keyEvent, focus, blur };
+}
+
+describe('useKeyFocus', () => {
+  it('returns nothing when the keyboard is not interactive', () => {
+    expect(renderKeyFocus(false).hook.result.current).toBeNull();
+  });
+
+  it('keeps one key in the tab order and follows focus', () => {
+    const { hook, focus, blur } = renderKeyFocus();
+    expect(hook.result.current?.tabbableId).toBe(idOf('C4'));
+    expect(hook.result.current?.focusedId).toBeNull();
+
+    focus('D4');
+    expect(hook.result.current?.tabbableId).toBe(idOf('D4'));
+    expect(hook.result.current?.focusedId).toBe(idOf('D4'));
+
+    blur('D4');
+    expect(hook.result.current?.focusedId).toBeNull();
+    expect(hook.result.current?.tabbableId).toBe(idOf('D4'));
+  });
+
+  it('moves along the path with the arrow keys and jumps with Home and End', () => {
+    const { focused, keyEvent } = renderKeyFocus();
+    expect(keyEvent('onKeyDown', 'C4', 'ArrowRight')).toBe(true);
+    keyEvent('onKeyDown', 'C#4', 'ArrowDown');
+    keyEvent('onKeyDown', 'D4', 'ArrowLeft');
+    keyEvent('onKeyDown', 'C4', 'ArrowUp');
+    keyEvent('onKeyDown', 'C4', 'End');
+    keyEvent('onKeyDown', 'E4', 'ArrowRight');
+    keyEvent('onKeyDown', 'E4', 'Home');
+    expect(focused).toEqual(['C#4', 'D4', 'C#4', 'C4', 'E4', 'E4', 'C4'].map(idOf));
+  });
+
+  it('plays the focused key with Enter or Space', () => {
+    const { events, keyEvent, blur } = renderKeyFocus();
+    expect(keyEvent('onKeyDown', 'D4', 'Enter')).toBe(true);
+    keyEvent('onKeyDown', 'D4', 'Enter', true);
+    keyEvent('onKeyUp', 'D4', 'Enter');
+    keyEvent('onKeyDown', 'E4', ' ');
+    expect(keyEvent('onKeyDown', 'E4', 'a')).toBe(false);
+    blur('E4');
+    expect(events).toEqual(['on D4', 'off D4', 'on E4', 'off E4']);
+  });
+});
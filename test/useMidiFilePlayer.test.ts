@@ -0,0 +1,53 @@
+import { act } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+
+import { createMidiFile, type MidiFile } from '../src/midiFile';
+import type { TransportClock } from '../src/midiTransport';
+import { useMidiFilePlayer } from '../src/useMidiFilePlayer';
+import { renderHook } from './renderHook';
+
+const file = createMidiFile([{ midi: 60, time: 0, duration: 2 }]);
+
+describe('useMidiFilePlayer', () => {
+  it('keeps one transport per file when the clock is passed inline', () => {
+    let time = 0;
+    let pending: (() => void) | null = null;
+    // A new clock object on every render, as with `clock={{ now, requestTick }}`.
+    const makeClock = (): TransportClock => ({
+      now: () => time,
+      requestTick: (callback) => {
+        pending = callback;
+        return () => {
+          pending = null;
+        };
+      },
+    });
+    const { result, rerender } = renderHook(
+      (tempoScale: number) => useMidiFilePlayer(file, { clock: makeClock(), tempoScale }),
+      1 as number,
+    );
+    const transport = result.current.transport!;
+
+    act(() => transport.play());
+    act(() => {
+      time = 0.5;
+      pending?.();
+    });
+    rerender(1);
+    rerender(2);
+    expect(result.current.transport).toBe(transport);
+    expect(result.current.playing).toBe(true);
+    expect(result.current.position).toBeCloseTo(0.5);
+    expect([...result.current.activeNotes.keys()]).toEqual([60]);
+  });
+
+  it('starts a new transport for a new file', () => {
+    const { result, rerender } = renderHook((next: MidiFile | null) => useMidiFilePlayer(next), file as MidiFile | null);
+    const first = result.current.transport;
+    rerender(createMidiFile([{ midi: 62, time: 0, duration: 1 }]));
+    expect(result.current.transport).not.toBe(first);
+    expect(result.current.duration).toBe(1);
+    rerender(null);
+    expect(result.current.transport).toBeNull();
+  });
+});
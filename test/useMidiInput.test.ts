@@ -0,0 +1,172 @@
+import { createElement } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { parseMidiMessage, useMidiInput, type MidiInputState, type UseMidiInputOptions } from '../src/useMidiInput';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/** A Web MIDI input that sends whatever bytes the test gives it. */
+function createFakeInput(id: string) {
+  const input = Object.assign(new EventTarget(), { id, name: `Keyboard ${id}`, manufacturer: 'Test' });
+  const send = (...bytes: number[]) => {
+    const event = new Event('midimessage');
+    Object.defineProperty(event, 'data', { value: Uint8Array.from(bytes) });
+    act(() => {
+      input.dispatchEvent(event);
+    });
+  };
+  return { input, send };
+}
+
+function createFakeAccess(...inputs: Array<ReturnType<typeof createFakeInput>>) {
+  const access = Object.assign(new EventTarget(), {
+    inputs: new Map(inputs.map(({ input }) => [input.id, input])),
+    outputs: new Map(),
+    sysexEnabled: false,
+  });
+  return access as unknown as MIDIAccess;
+}
+
+let renderer: ReactTestRenderer | null = null;
+
+afterEach(() => {
+  act(() => renderer?.unmount());
+  renderer = null;
+});
+
+async function renderMidiInput(options: UseMidiInputOptions | (() => UseMidiInputOptions)) {
+  const result: { current: MidiInputState | null; renders: number } = { current: null, renders: 0 };
+  const Probe = () => {
+    result.renders += 1;
+    result.current = useMidiInput(typeof options === 'function' ? options() : options);
+    return null;
+  };
+  await act(async () => {
+    renderer = create(createElement(Probe));
+  });
+  return result as { current: MidiInputState; renders: number };
+}
+
+describe('parseMidiMessage', () => {
+  it('decodes notes, sustain and all-notes-off on channels 1-16', () => {
+    expect(parseMidiMessage([0x90, 60, 127])).toEqual({ type: 'noteon', channel: 1, midi: 60, velocity: 1 });
+    expect(parseMidiMessage([0x83, 60, 0])).toEqual({ type: 'noteoff', channel: 4, midi: 60, velocity: 0 });
+    expect(parseMidiMessage([0x9f, 60, 0])).toMatchObject({ type: 'noteoff', channel: 16 });
+    expect(parseMidiMessage([0xb0, 64, 100])).toEqual({ type: 'sustain', channel: 1, down: true });
+    expect(parseMidiMessage([0xb1, 123, 0])).toEqual({ type: 'allnotesoff', channel: 2 });
+  });
+
+  it('ignores messages the keyboard does not show', () => {
+    expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();
+    expect(parseMidiMessage([0xb0, 7, 100])).toBeNull();
+    expect(parseMidiMessage([0xf8])).toBeNull();
+  });
+});
+
+describe('useMidiInput', () => {
+  it('lists the inputs of the injected access', async () => {
+    const access = createFakeAccess(createFakeInput('a'), createFakeInput('b'));
+    const state = await renderMidiInput({ midiAccess: access });
+    expect(state.current.status).toBe('ready');
+    expect(state.current.inputs.map((input) => input.id)).toEqual(['a', 'b']);
+  });
+
+  it('turns note messages into active notes and callbacks', async () => {
+    const device = createFakeInput('a');
+    const events: string[] = [];
+    const state = await renderMidiInput({
+      midiAccess: createFakeAccess(device),
+      onNoteOn: (event) => events.push(`on ${event.note} ${event.inputId}`),
+      onNoteOff: (event) => events.push(`off ${event.note}`),
+    });
+
+    device.send(0x90, 60, 127);
+    expect(state.current.activeNotes.get(60)).toEqual({ velocity: 1 });
+
+    device.send(0x80, 60, 0);
+    expect(state.current.activeNotes.size).toBe(0);
+    expect(events).toEqual(['on C4 a', 'off C4']);
+  });
+
+  it('holds released notes while the sustain pedal is down', async () => {
+    const device = createFakeInput('a');
+    const state = await renderMidiInput({ midiAccess: createFakeAccess(device) });
+
+    device.send(0xb0, 64, 127);
+    device.send(0x90, 64, 100);
+    device.send(0x80, 64, 0);
+    expect(state.current.sustain).toBe(true);
+    expect(state.current.activeNotes.has(64)).toBe(true);
+
+    device.send(0xb0, 64, 0);
+    expect(state.current.sustain).toBe(false);
+    expect(state.current.activeNotes.has(64)).toBe(false);
+  });
+
+  it('filters by channel and by input', async () => {
+    const first = createFakeInput('a');
+    const second = createFakeInput('b');
+    const state = await renderMidiInput({ midiAccess: createFakeAccess(first, second), inputId: 'a', channel: 2 });
+
+    first.send(0x90, 60, 100);
+    second.send(0x91, 62, 100);
+    first.send(0x91, 64, 100);
+    expect([...state.current.activeNotes.keys()]).toEqual([64]);
+  });
+
+  it('requests access once when given a new promise every render', async () => {
+    const access = createFakeAccess(createFakeInput('a'));
+    const state = await renderMidiInput(() => ({ midiAccess: Promise.resolve(access) }));
+    expect(state.current.status).toBe('ready');
+    expect(state.renders).toBeLessThan(10);
+    const settled = state.renders;
+    await act(async () => {});
+    expect(state.renders).toBe(settled);
+  });
+
+  it('keeps notes sounding when another device is plugged in', async () => {
+    const device = createFakeInput('a');
+    const access = createFakeAccess(device);
+    const events: string[] = [];
+    const state = await renderMidiInput({ midiAccess: access, onNoteOff: (event) => events.push(`off ${event.note}`) });
+
+    device.send(0x90, 60, 100);
+    const second = createFakeInput('b');
+    (access.inputs as Map<string, unknown>).set('b', second.input);
+    act(() => {
+      access.dispatchEvent(new Event('statechange'));
+    });
+    expect(state.current.inputs.map((input) => input.id)).toEqual(['a', 'b']);
+    expect(state.current.activeNotes.has(60)).toBe(true);
+    expect(events).toEqual([]);
+
+    second.send(0x90, 62, 100);
+    expect([...state.current.activeNotes.keys()]).toEqual([60, 62]);
+  });
+
+  it('tracks the same note on different channels separately', async () => {
+    const device = createFakeInput('a');
+    const events: string[] = [];
+    const state = await renderMidiInput({
+      midiAccess: createFakeAccess(device),
+      onNoteOff: (event) => events.push(`off ${event.note} ch${event.channel}`),
+    });
+
+    device.send(0x90, 60, 100);
+    device.send(0x91, 60, 100);
+    device.send(0x80, 60, 0);
+    expect(events).toEqual(['off C4 ch1']);
+    expect(state.current.activeNotes.has(60)).toBe(true);
+
+    device.send(0xb1, 123, 0);
+    expect(events).toEqual(['off C4 ch1', 'off C4 ch2']);
+    expect(state.current.activeNotes.size).toBe(0);
+  });
+
+  it('reports denied access', async () => {
+    const state = await renderMidiInput({ midiAccess: Promise.reject(new Error('blocked')) });
+    expect(state.current.status).toBe('denied');
+    expect(state.current.error).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,113 @@
+import { act } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+
+import { parseMidiFile } from '../src/midiFile';
+import type { TransportClock } from '../src/midiTransport';
+import { useNoteRecorder, type NoteRecorderState, type UseNoteRecorderOptions } from '../src/useNoteRecorder';
+import { renderHook } from './renderHook';
+
+/** A clock that only moves when the test says so. */
+function createFakeClock() {
+  let time = 0;
+  let pending: (() => void) | null = null;
+  const clock: TransportClock = {
+    now: () => time,
+    requestTick: (callback) => {
+      pending = callback;
+      return () => {
+        if (pending === callback) {
+          pending = null;
+        }
+      };
+    },
+  };
+  const moveTo = (seconds: number) =>
+    act(() => {
+      time = seconds;
+      const callback = pending;
+      pending = null;
+      callback?.();
+    });
+  return { clock, moveTo };
+}
+
+function renderRecorder(options: Omit<UseNoteRecorderOptions, 'clock'> = {}) {
+  const { clock, moveTo } = createFakeClock();
+  const played: number[] = [];
+  const hook = renderHook(
+    () => useNoteRecorder({ clock, onNoteOn: (note) => played.push(note.midi), ...options }),
+    null,
+  );
+  const run = (callback: (recorder: NoteRecorderState) => void) =>
+    act(() => callback(hook.result.current));
+  return { hook, moveTo, run, played };
+}
+
+const summary = (notes: ReadonlyArray<{ midi: number; time: number; duration: number }>) =>
+  notes.map(({ midi, time, duration }) => `${midi}@${time.toFixed(2)}+${duration.toFixed(2)}`);
+
+describe('useNoteRecorder', () => {
+  it('records notes with times from the start of the take', () => {
+    const { hook, moveTo, run } = renderRecorder();
+    moveTo(10);
+    run((recorder) => recorder.start());
+    expect(hook.result.current.recording).toBe(true);
+    moveTo(10.5);
+    run((recorder) => recorder.noteOn({ midi: 60, velocity: 0.5 }));
+    moveTo(11);
+    run((recorder) => recorder.noteOff({ midi: 60 }));
+    moveTo(11.2);
+    run((recorder) => recorder.noteOn({ midi: 64, channel: 2 }));
+    moveTo(12);
+    run((recorder) => recorder.stop());
+
+    const { notes } = hook.result.current;
+    expect(hook.result.current.recording).toBe(false);
+    expect(summary(notes)).toEqual(['60@0.50+0.50', '64@1.20+0.80']);
+    expect(notes.map(({ velocity, channel }) => [velocity, channel])).toEqual([
+      [0.5, 1],
+      [0.8, 2],
+    ]);
+  });
+
+  it('layers an overdub over the take while playing it back', () => {
+    const { hook, moveTo, run, played } = renderRecorder({
+      initialNotes: [{ midi: 48, time: 0, duration: 2, velocity: 1 }],
+    });
+    run((recorder) => recorder.start({ overdub: true }));
+    expect(hook.result.current.player.playing).toBe(true);
+    expect(played).toEqual([48]);
+    moveTo(0.25);
+    run((recorder) => recorder.noteOn({ midi: 67 }));
+    moveTo(0.5);
+    run((recorder) => recorder.noteOff({ midi: 67 }));
+    run((recorder) => recorder.stop());
+    expect(hook.result.current.player.playing).toBe(false);
+    expect(summary(hook.result.current.notes)).toEqual(['48@0.00+2.00', '67@0.25+0.25']);
+
+    // Recording without overdub replaces the take.
+    run((recorder) => recorder.start());
+    run((recorder) => recorder.stop());
+    expect(hook.result.current.notes).toEqual([]);
+  });
+
+  it('quantizes to the tempo and exports the take', () => {
+    const { hook, run } = renderRecorder({
+      bpm: 60,
+      initialNotes: [
+        { midi: 60, time: 0.1, duration: 0.4, velocity: 1 },
+        { midi: 62, time: 0.9, duration: 0.3, velocity: 1 },
+      ],
+    });
+    // Eighths at 60 bpm are half a second apart.
+    run((recorder) => recorder.quantize(2));
+    expect(summary(hook.result.current.notes)).toEqual(['60@0.00+0.50', '62@1.00+0.50']);
+
+    const exported = JSON.parse(hook.result.current.exportJson());
+    expect(exported.bpm).toBe(60);
+    expect(exported.events).toHaveLength(4);
+    const file = parseMidiFile(hook.result.current.exportMidi());
+    expect(file.tempos[0].bpm).toBeCloseTo(60);
+    expect(summary(file.notes)).toEqual(['60@0.00+0.50', '62@1.00+0.50']);
+  });
+});
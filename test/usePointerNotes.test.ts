@@ -0,0 +1,114 @@
+import type { PointerEvent as ReactPointerEvent, RefObject } from 'react';
+import { act } from 'react-test-renderer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { computeKeyboardLayout } from '../src/keyboardLayout';
+import { usePointerNotes, type NoteEvent } from '../src/usePointerNotes';
+import { renderHook } from './renderHook';
+
+// C4-C5 with 125-unit white keys; the path runs along y = 240 and white keys
+// stick out below it to y = 280, past the black keys.
+const layout = computeKeyboardLayout('M 40 240 L 1040 240', { lowNote: 'C4', highNote: 'C5' });
+const whiteKeyX = (index: number) => 40 + 125 * (index + 0.5);
+
+// Screen and path coordinates are the same here.
+const identity = { inverse: () => identity };
+const svgRef = { current: { getScreenCTM: () => identity } } as unknown as RefObject<SVGSVGElement>;
+
+beforeEach(() => {
+  vi.stubGlobal(
+    'DOMPoint',
+    class {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+
+      matrixTransform() {
+        return this;
+      }
+    },
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function pointer(pointerId: number, x: number, y = 270, pointerType = 'touch', pressure = 0) {
+  return {
+    pointerId,
+    pointerType,
+    pressure,
+    button: 0,
+    clientX: x,
+    clientY: y,
+    currentTarget: { setPointerCapture: () => {} },
+  } as unknown as ReactPointerEvent<SVGSVGElement>;
+}
+
+function renderPointerNotes() {
+  const events: string[] = [];
+  const velocities: number[] = [];
+  const onNoteOn = (event: NoteEvent) => {
+    events.push(`on ${event.note} #${event.pointerId}`);
+    velocities.push(event.velocity);
+  };
+  const onNoteOff = (event: NoteEvent) => events.push(`off ${event.note} #${event.pointerId}`);
+  const hook = renderHook(() => usePointerNotes(svgRef, layout, { onNoteOn, onNoteOff }), null);
+  const handlers = hook.result.current!;
+  const run = (callback: () => void) => act(callback);
+  return { hook, handlers, events, velocities, run };
+}
+
+describe('usePointerNotes', () => {
+  it('is disabled without note handlers', () => {
+    const hook = renderHook(() => usePointerNotes(svgRef, layout, {}), null);
+    expect(hook.result.current).toBeNull();
+  });
+
+  it('glides from key to key while a pointer is dragged', () => {
+    const { handlers, events, run } = renderPointerNotes();
+    run(() => handlers.onPointerDown(pointer(1, whiteKeyX(0))));
+    run(() => handlers.onPointerMove(pointer(1, whiteKeyX(0) + 10)));
+    run(() => handlers.onPointerMove(pointer(1, whiteKeyX(1))));
+    run(() => handlers.onPointerUp(pointer(1, whiteKeyX(1))));
+    expect(events).toEqual(['on C4 #1', 'off C4 #1', 'on D4 #1', 'off D4 #1']);
+  });
+
+  it('plays one note per pointer for chords', () => {
+    const { handlers, events, run } = renderPointerNotes();
+    run(() => handlers.onPointerDown(pointer(1, whiteKeyX(0))));
+    run(() => handlers.onPointerDown(pointer(2, whiteKeyX(2))));
+    run(() => handlers.onPointerDown(pointer(3, whiteKeyX(4))));
+    run(() => handlers.onPointerUp(pointer(2, whiteKeyX(2))));
+    expect(events).toEqual(['on C4 #1', 'on E4 #2', 'on G4 #3', 'off E4 #2']);
+  });
+
+  it('ignores moves from pointers that are not down and releases on cancel', () => {
+    const { handlers, events, run } = renderPointerNotes();
+    run(() => handlers.onPointerMove(pointer(1, whiteKeyX(0))));
+    expect(events).toEqual([]);
+    run(() => handlers.onPointerDown(pointer(1, whiteKeyX(0))));
+    run(() => handlers.onPointerMove(pointer(1, 2000)));
+    run(() => handlers.onPointerMove(pointer(1, whiteKeyX(3))));
+    run(() => handlers.onPointerCancel(pointer(1, whiteKeyX(3))));
+    expect(events).toEqual(['on C4 #1', 'off C4 #1', 'on F4 #1', 'off F4 #1']);
+  });
+
+  it('takes velocity from pen pressure, or from how far forward the key is struck', () => {
+    const { handlers, velocities, run } = renderPointerNotes();
+    run(() => handlers.onPointerDown(pointer(1, whiteKeyX(0), 250, 'mouse')));
+    run(() => handlers.onPointerDown(pointer(2, whiteKeyX(1), 278, 'mouse')));
+    run(() => handlers.onPointerDown(pointer(3, whiteKeyX(2), 250, 'pen', 0.3)));
+    expect(velocities[1]).toBeGreaterThan(velocities[0]);
+    expect(velocities[2]).toBe(0.3);
+  });
+
+  it('releases held notes on unmount', () => {
+    const { hook, handlers, events, run } = renderPointerNotes();
+    run(() => handlers.onPointerDown(pointer(1, whiteKeyX(0))));
+    hook.unmount();
+    expect(events).toEqual(['on C4 #1', 'off C4 #1']);
+  });
+});
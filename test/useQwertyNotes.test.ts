@@ -0,0 +1,109 @@
+import type { RefObject } from 'react';
+import { act } from 'react-test-renderer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { computeKeyboardLayout } from '../src/keyboardLayout';
+import type { NoteEvent } from '../src/usePointerNotes';
+import { useQwertyNotes, type QwertyInputOptions } from '../src/useQwertyNotes';
+import { renderHook } from './renderHook';
+
+const layout = computeKeyboardLayout('M 40 240 L 1040 240', { lowNote: 'C3', highNote: 'C6' });
+const svgRef = { current: null } as RefObject<SVGSVGElement>;
+
+let fakeWindow: EventTarget;
+let fakeDocument: EventTarget & { visibilityState: string };
+
+beforeEach(() => {
+  fakeWindow = new EventTarget();
+  fakeDocument = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+  vi.stubGlobal('window', fakeWindow);
+  vi.stubGlobal('document', fakeDocument);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function press(type: 'keydown' | 'keyup', code: string, init: { repeat?: boolean; ctrlKey?: boolean } = {}) {
+  const event = new Event(type, { cancelable: true });
+  Object.assign(event, { code, repeat: false, ctrlKey: false, metaKey: false, altKey: false, ...init });
+  act(() => {
+    fakeWindow.dispatchEvent(event);
+  });
+  return event;
+}
+
+function renderQwerty(options: QwertyInputOptions = {}) {
+  const events: string[] = [];
+  const handlers = {
+    onNoteOn: (event: NoteEvent) => events.push(`on ${event.note}`),
+    onNoteOff: (event: NoteEvent) => events.push(`off ${event.note}`),
+  };
+  const hook = renderHook(() => useQwertyNotes(svgRef, layout, options, handlers), null);
+  return { hook, events };
+}
+
+describe('useQwertyNotes', () => {
+  it('plays a row of keys from C in the chosen octave', () => {
+    const { events } = renderQwerty();
+    press('keydown', 'KeyA');
+    press('keydown', 'KeyW');
+    press('keyup', 'KeyA');
+    press('keydown', 'KeyK');
+    expect(events).toEqual(['on C4', 'on C#4', 'off C4', 'on C5']);
+  });
+
+  it('shifts the octave with Z and X and reports it', () => {
+    const onOctaveChange = vi.fn();
+    const { hook, events } = renderQwerty({ octave: 3, onOctaveChange });
+    press('keydown', 'KeyX');
+    press('keydown', 'KeyX');
+    press('keydown', 'KeyZ');
+    expect(onOctaveChange.mock.calls).toEqual([[4], [5], [4]]);
+    expect(hook.result.current?.octave).toBe(4);
+    press('keydown', 'KeyD');
+    expect(events).toEqual(['on E4']);
+  });
+
+  it('releases a note with the key that played it, even after an octave change', () => {
+    const { events } = renderQwerty();
+    press('keydown', 'KeyA');
+    press('keydown', 'KeyX');
+    press('keyup', 'KeyA');
+    expect(events).toEqual(['on C4', 'off C4']);
+  });
+
+  it('ignores auto-repeat and shortcuts', () => {
+    const { events } = renderQwerty();
+    press('keydown', 'KeyA');
+    press('keydown', 'KeyA', { repeat: true });
+    press('keydown', 'KeyS', { ctrlKey: true });
+    expect(events).toEqual(['on C4']);
+  });
+
+  it('releases every held key when the window loses focus or the tab is hidden', () => {
+    const { events } = renderQwerty();
+    press('keydown', 'KeyA');
+    press('keydown', 'KeyD');
+    act(() => {
+      fakeWindow.dispatchEvent(new Event('blur'));
+    });
+    expect(events).toEqual(['on C4', 'on E4', 'off C4', 'off E4']);
+
+    press('keydown', 'KeyG');
+    fakeDocument.visibilityState = 'hidden';
+    act(() => {
+      fakeDocument.dispatchEvent(new Event('visibilitychange'));
+    });
+    expect(events.slice(4)).toEqual(['on G4', 'off G4']);
+    press('keyup', 'KeyG');
+    expect(events).toHaveLength(6);
+  });
+
+  it('draws hints for the mapped keys of the current octave', () => {
+    const { hook } = renderQwerty();
+    const hints = hook.result.current?.hints ?? [];
+    expect(hints[0]).toEqual({ midi: 60, label: 'A' });
+    expect(hints.find((hint) => hint.label === ';')?.midi).toBe(76);
+  });
+});
@@ -0,0 +1,52 @@
+import type { RefObject } from 'react';
+import { describe, expect, it } from 'vitest';
+
+import { resolveResponsiveBreakpoint, useResponsiveDensity } from '../src/useResponsiveDensity';
+import { renderHook } from './renderHook';
+
+const breakpoints = [
+  { minWidth: 0, whiteKeyDensity: 'xl' as const },
+  { minWidth: 768, whiteKeyDensity: 'md' as const, keep: 'octaves' as const },
+  { minWidth: 1440, numWhiteKeys: 52 },
+];
+
+/** An `<svg>` rendered `width` pixels wide at `scale` pixels per path unit. */
+function svgRef(width: number, scale: number) {
+  const svg = {
+    getBoundingClientRect: () => ({ width }),
+    getScreenCTM: () => ({ a: 0, b: scale }),
+  };
+  return { current: svg } as unknown as RefObject<SVGSVGElement>;
+}
+
+describe('resolveResponsiveBreakpoint', () => {
+  it('picks the widest breakpoint that fits', () => {
+    expect(resolveResponsiveBreakpoint(breakpoints, 320)).toBe(breakpoints[0]);
+    expect(resolveResponsiveBreakpoint(breakpoints, 768)).toBe(breakpoints[1]);
+    expect(resolveResponsiveBreakpoint(breakpoints, 2560)).toBe(breakpoints[2]);
+    expect(resolveResponsiveBreakpoint(breakpoints.slice(1), 320)).toBeNull();
+    expect(resolveResponsiveBreakpoint(undefined, 320)).toBeNull();
+  });
+});
+
+describe('useResponsiveDensity', () => {
+  it('does nothing unless enabled', () => {
+    const { result } = renderHook(() => useResponsiveDensity(svgRef(800, 1), null), null);
+    expect(result.current).toBeNull();
+  });
+
+  it('measures the svg and applies the breakpoint for its width', () => {
+    const { result } = renderHook(() => useResponsiveDensity(svgRef(800, 0.5), { keep: 'center', breakpoints }), null);
+    expect(result.current).toEqual({
+      size: { width: 800, pixelsPerUnit: 0.5 },
+      keep: 'octaves',
+      whiteKeyDensity: 'md',
+      numWhiteKeys: undefined,
+    });
+  });
+
+  it('falls back to its own keep where the breakpoint has none', () => {
+    const { result } = renderHook(() => useResponsiveDensity(svgRef(1600, 2), { keep: 'center', breakpoints }), null);
+    expect(result.current).toMatchObject({ keep: 'center', numWhiteKeys: 52 });
+  });
+});